@@ -1,3 +1,3 @@
 #!/usr/bin/env node
 
-require('../dist/index.js');
\ No newline at end of file
+require('../dist/main.js');
\ No newline at end of file
@@ -1,124 +1,625 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { COMPILER_BACKENDS, CompilerBackend } from './compiler';
+import { GRAPH_FORMATS, GraphFormat } from './graph';
+
+export type OutputFormat = 'text' | 'json';
+
 interface GlobalOptions {
   verbose: number;
   silent: boolean;
   color: boolean;
+  compiler: CompilerBackend;
+  plugins: string[];
 }
 
-interface RunOptions extends GlobalOptions {
+export interface RunOptions extends GlobalOptions {
   output?: string;
   seed?: number;
   saveFile?: string;
   noSave: boolean;
+  watch: boolean;
+  choicesFile?: string;
+  choose: string[];
+  undoLimit?: number;
+  theme?: string;
+  typewriter: boolean;
+  speed?: number;
+  step: boolean;
 }
 
-interface CompileOptions extends GlobalOptions {
+export interface CompileOptions extends GlobalOptions {
   output?: string;
-  watch: boolean;
-  json: boolean;
+  format: OutputFormat;
 }
 
-interface CommonOptions extends GlobalOptions {
+export interface ConvertOptions extends GlobalOptions {
+  output?: string;
+  force: boolean;
+}
+
+export interface LintOptions extends GlobalOptions {
+  format: OutputFormat;
+  strict: boolean;
+  allowTags: string[];
+}
+
+export interface GraphOptions extends GlobalOptions {
+  output?: string;
+  format: GraphFormat;
+  collapseStitches: boolean;
+}
+
+export interface StatsOptions extends GlobalOptions {
+  format: OutputFormat;
+}
+
+export interface ExploreOptions extends GlobalOptions {
+  output?: string;
+  seed?: number;
+  format: OutputFormat;
+  maxDepth?: number;
+  maxStates?: number;
+}
+
+export interface ServeOptions extends GlobalOptions {
+  port: number;
+  host: string;
+  origin?: string;
+  seed?: number;
+}
+
+export interface ExportOptions extends GlobalOptions {
+  web?: string;
+  theme?: string;
+}
+
+export interface SavesOptions extends GlobalOptions {
+  load?: string;
+  delete?: string;
+  noSave: boolean;
+}
+
+export type CommandName =
+  | 'run' | 'play' | 'compile' | 'convert' | 'lint' | 'graph' | 'stats'
+  | 'watch' | 'replay' | 'test' | 'explore' | 'saves' | 'serve' | 'export';
+
+export type CommandOptions =
+  | RunOptions | CompileOptions | ConvertOptions | LintOptions | GraphOptions
+  | StatsOptions | ExploreOptions | SavesOptions | ServeOptions | ExportOptions;
+
+export interface ParsedArgs {
+  /** null when no command or story was given (e.g. a bare --help). */
+  command: CommandName | null;
+  /** The story (or save, or transcript) the command works on. */
+  file?: string;
+  /** Every positional argument, for commands that take several. */
+  files: string[];
+  options: CommandOptions;
   help: boolean;
   version: boolean;
 }
 
-type CommandType = 'run' | 'compile' | 'watch' | 'replay' | null;
+/** A mistake on the command line; `command` says whose --help to point at. */
+export class UsageError extends Error {
+  constructor(message: string, readonly command: CommandName | null = null) {
+    super(message);
+    this.name = 'UsageError';
+  }
+}
 
-interface ParsedArgs {
-  command: CommandType;
-  file?: string;
-  options: RunOptions | CompileOptions | CommonOptions;
-  remaining: string[];
-}
-
-export function parseArgs(): ParsedArgs {
-  const argv = process.argv.slice(2);
-  let command: CommandType = null;
-  let file: string | undefined;
-  const options: Partial<RunOptions & CompileOptions & CommonOptions> = {
-    verbose: 0,
-    silent: false,
-    color: true,
-    noSave: false,
-    watch: false,
-    json: true,
-  };
-  const remaining: string[] = [];
+interface OptionSpec {
+  flag: string;
+  short?: string;
+  /** The property the value is stored under. */
+  key: string;
+  /** flag: on/off; count: repeatable flag (-vv); list: repeatable, collecting every value. */
+  type: 'flag' | 'count' | 'string' | 'integer' | 'list';
+  /** A list value may hold several items separated by commas. */
+  commaSeparated?: boolean;
+  /** Placeholder for --help, e.g. "<file>". */
+  value?: string;
+  choices?: readonly string[];
+  min?: number;
+  /** What a flag stores instead of `true` (--no-color stores color: false). */
+  sets?: unknown;
+  default?: unknown;
+  description: string;
+}
 
-  for (let i = 0; i < argv.length; i++) {
-    const arg = argv[i];
+interface CommandSpec {
+  name: CommandName;
+  /** Positional arguments for --help, e.g. "<story.ink>". */
+  args: string;
+  summary: string;
+  /** Extensions the file must have; any file when unset. */
+  extensions?: string[];
+  /** Accepts several files (test takes transcripts and directories). */
+  variadic?: boolean;
+  options: OptionSpec[];
+  examples?: Array<[string, string]>;
+}
 
-    if (arg === '--help' || arg === '-h') {
-      (options as CommonOptions).help = true;
-      break;
-    }
+const GLOBAL_OPTIONS: OptionSpec[] = [
+  { flag: '--help', short: '-h', key: 'help', type: 'flag', description: 'Show help (for a command: calligrapher <command> --help)' },
+  { flag: '--version', short: '-V', key: 'version', type: 'flag', description: 'Show version' },
+  { flag: '--verbose', short: '-v', key: 'verbose', type: 'count', description: 'Increase verbosity (use -vv or -vvv for more)' },
+  { flag: '--silent', short: '-s', key: 'silent', type: 'flag', description: 'Suppress non-essential output' },
+  { flag: '--no-color', key: 'color', type: 'flag', sets: false, default: true, description: 'Plain output without colors' },
+  { flag: '--compiler', key: 'compiler', type: 'string', value: '<name>', choices: COMPILER_BACKENDS, default: 'inkjs', description: 'Compiler backend: inkjs (default) or inklecate' },
+];
 
-    if (arg === '--version' || arg === '-V') {
-      (options as CommonOptions).version = true;
-      break;
-    }
+const output = (description: string): OptionSpec =>
+  ({ flag: '--output', short: '-o', key: 'output', type: 'string', value: '<file>', description });
 
-    if (arg === '--verbose' || arg === '-v') {
-      options.verbose = (options.verbose || 0) + 1;
-      continue;
-    }
+const format = (choices: readonly string[], fallback: string): OptionSpec => ({
+  flag: '--format',
+  key: 'format',
+  type: 'string',
+  value: '<fmt>',
+  choices,
+  default: fallback,
+  description: `Output format: ${choices.join(', ')} (default ${fallback})`,
+});
 
-    if (arg === '--silent' || arg === '-s') {
-      options.silent = true;
-      continue;
-    }
+const JSON_FLAG: OptionSpec = { flag: '--json', key: 'format', type: 'flag', sets: 'json', description: 'Same as --format json' };
 
-    if (arg === '--no-color') {
-      options.color = false;
-      continue;
+const SEED: OptionSpec = { flag: '--seed', key: 'seed', type: 'integer', value: '<number>', description: 'Set random seed for reproducible runs' };
+
+const PLUGIN: OptionSpec = {
+  flag: '--plugin',
+  key: 'plugins',
+  type: 'list',
+  value: '<name|file>',
+  description: 'Load a plugin: dice, clock, env or a .js file (repeatable)',
+};
+
+const NO_SAVE: OptionSpec = { flag: '--no-save', key: 'noSave', type: 'flag', description: 'Disable auto-save' };
+
+/** How a story is shown while it's played, wherever it's played from. */
+const THEME: OptionSpec = { flag: '--theme', key: 'theme', type: 'string', value: '<file>', description: 'Style tagged text with a JSON or YAML theme' };
+
+const PRESENTATION_OPTIONS: OptionSpec[] = [
+  { flag: '--undo-limit', key: 'undoLimit', type: 'integer', value: '<n>', min: 0, description: 'Choices kept for undo (default 100, 0 disables)' },
+  THEME,
+  { flag: '--typewriter', key: 'typewriter', type: 'flag', description: 'Type text out (any key shows the rest of the line)' },
+  { flag: '--speed', key: 'speed', type: 'integer', value: '<cps>', min: 1, description: 'Typewriter speed in characters per second (default 60)' },
+  { flag: '--step', key: 'step', type: 'flag', description: 'Press Enter after every line, not just at choices' },
+  PLUGIN,
+];
+
+const RUN_OPTIONS: OptionSpec[] = [
+  output('Record a transcript of the run'),
+  { flag: '--save', short: '-S', key: 'saveFile', type: 'string', value: '<slot>', description: 'Resume from a save slot or save file' },
+  NO_SAVE,
+  SEED,
+  ...PRESENTATION_OPTIONS,
+];
+
+const STORY_EXTENSIONS = ['.ink', '.json', '.txt', '.md'];
+
+export const COMMANDS: CommandSpec[] = [
+  {
+    name: 'run',
+    args: '<story>',
+    summary: 'Run an Ink story, compiled story or text adventure',
+    extensions: STORY_EXTENSIONS,
+    options: RUN_OPTIONS,
+    examples: [
+      ['calligrapher story.ink', 'Run a story (run is the default command)'],
+      ['calligrapher story.ink -o run.transcript.json', 'Record a transcript of the run'],
+    ],
+  },
+  {
+    name: 'play',
+    args: '<story>',
+    summary: 'Play a story; with --watch, hot-reload on every edit',
+    extensions: STORY_EXTENSIONS,
+    options: [
+      ...RUN_OPTIONS,
+      { flag: '--watch', short: '-w', key: 'watch', type: 'flag', description: 'Reload the story on every edit and keep your place' },
+      { flag: '--choices', key: 'choicesFile', type: 'string', value: '<file>', description: 'Play non-interactively, one choice per line (- for stdin)' },
+      { flag: '--choose', key: 'choose', type: 'list', value: '<choice>', description: 'Scripted choice: 1-based index or regex (repeatable)' },
+    ],
+    examples: [
+      ['calligrapher play --watch story.ink', 'Play with hot reload'],
+      ['calligrapher play story.ink --choose 2 --choose "castle"', 'Scripted playthrough for CI'],
+    ],
+  },
+  {
+    name: 'compile',
+    args: '<story.ink>',
+    summary: 'Compile .ink to .json only',
+    extensions: ['.ink'],
+    options: [output('Where to write the JSON (default: next to the story)'), format(['text', 'json'], 'text'), JSON_FLAG],
+    examples: [
+      ['calligrapher compile story.ink', 'Compile to JSON'],
+      ['calligrapher compile story.ink --format json', 'Print diagnostics as JSON'],
+    ],
+  },
+  {
+    name: 'convert',
+    args: '<story.txt>',
+    summary: 'Convert a .txt/.md adventure to ink source',
+    extensions: ['.txt', '.md'],
+    options: [
+      output('The .ink file to write (default: next to the story)'),
+      { flag: '--force', short: '-f', key: 'force', type: 'flag', description: 'Overwrite an existing .ink file' },
+    ],
+    examples: [['calligrapher convert simple.txt -o simple.ink', 'Upgrade a text adventure to ink']],
+  },
+  {
+    name: 'lint',
+    args: '<story.ink>',
+    summary: 'Check for unreachable knots, dead ends, unused variables...',
+    extensions: ['.ink'],
+    options: [
+      format(['text', 'json'], 'text'),
+      JSON_FLAG,
+      { flag: '--strict', key: 'strict', type: 'flag', description: 'Exit 1 on warnings and TODOs too, not just errors' },
+      { flag: '--allow-tags', key: 'allowTags', type: 'list', commaSeparated: true, value: '<list>', description: 'Comma-separated tag names to allow (others are reported)' },
+    ],
+    examples: [['calligrapher lint story.ink --strict --format json', 'Fail CI on any lint finding']],
+  },
+  {
+    name: 'graph',
+    args: '<story.ink>',
+    summary: 'Export the flow graph of knots, stitches and choices',
+    extensions: ['.ink'],
+    options: [
+      output('Write the graph to a file instead of stdout'),
+      format(GRAPH_FORMATS, 'dot'),
+      { flag: '--collapse-stitches', key: 'collapseStitches', type: 'flag', description: 'Draw each knot as one node, stitches included' },
+    ],
+    examples: [['calligrapher graph story.ink | dot -Tsvg > story.svg', "Draw the story's structure"]],
+  },
+  {
+    name: 'stats',
+    args: '<story.ink>',
+    summary: 'Words and choices per knot, longest path, read time',
+    extensions: ['.ink'],
+    options: [format(['text', 'json'], 'text'), JSON_FLAG],
+  },
+  {
+    name: 'watch',
+    args: '<story.ink>',
+    summary: 'Watch for changes and recompile',
+    extensions: ['.ink'],
+    options: [output('Where to write the JSON (default: next to the story)')],
+    examples: [['calligrapher watch story.ink -vv', 'Watch with verbose output']],
+  },
+  {
+    name: 'replay',
+    args: '<save>',
+    summary: 'Restore a saved game state',
+    options: PRESENTATION_OPTIONS,
+  },
+  {
+    name: 'test',
+    args: '<transcripts...>',
+    summary: 'Replay recorded transcripts and diff against them',
+    variadic: true,
+    options: [PLUGIN],
+    examples: [['calligrapher test tests/', 'Check *.transcript.json goldens']],
+  },
+  {
+    name: 'explore',
+    args: '<story>',
+    summary: 'Walk every branch: coverage, endings, errors, loops',
+    extensions: ['.ink', '.json'],
+    options: [
+      output('Directory to write a choice script for each ending'),
+      SEED,
+      format(['text', 'json'], 'text'),
+      JSON_FLAG,
+      { flag: '--max-depth', key: 'maxDepth', type: 'integer', value: '<n>', min: 1, description: 'Deepest choice path to follow (default 50)' },
+      { flag: '--max-states', key: 'maxStates', type: 'integer', value: '<n>', min: 1, description: 'Number of states to visit (default 5000)' },
+      PLUGIN,
+    ],
+    examples: [['calligrapher explore story.ink -o paths/', 'Report coverage, save ending paths']],
+  },
+  {
+    name: 'saves',
+    args: '<story>',
+    summary: 'List, load (--load <slot>) or delete (--delete <slot>) saves',
+    extensions: STORY_EXTENSIONS,
+    options: [
+      { flag: '--load', key: 'load', type: 'string', value: '<slot>', description: 'Resume a save' },
+      { flag: '--delete', key: 'delete', type: 'string', value: '<slot>', description: 'Delete a save' },
+      NO_SAVE,
+      ...PRESENTATION_OPTIONS,
+    ],
+  },
+  {
+    name: 'serve',
+    args: '<story>',
+    summary: 'Serve the story over a local HTTP/WebSocket API',
+    extensions: ['.ink', '.json'],
+    options: [
+      { flag: '--port', short: '-p', key: 'port', type: 'integer', value: '<n>', min: 0, default: 4000, description: 'Port to listen on (default 4000; 0 picks a free one)' },
+      { flag: '--host', key: 'host', type: 'string', value: '<host>', default: '127.0.0.1', description: 'Interface to listen on (default 127.0.0.1)' },
+      { flag: '--origin', key: 'origin', type: 'string', value: '<url>', description: 'Browser origin allowed to call the API (default: any localhost port)' },
+      SEED,
+      PLUGIN,
+    ],
+    examples: [['calligrapher serve story.ink -p 4000', 'Play the story from a browser or test']],
+  },
+  {
+    name: 'export',
+    args: '<story>',
+    summary: 'Build a playable copy of the story (--web <dir>: a single HTML page)',
+    extensions: ['.ink', '.json'],
+    options: [
+      { flag: '--web', key: 'web', type: 'string', value: '<dir>', description: 'Write a self-contained index.html to this directory' },
+      THEME,
+    ],
+    examples: [['calligrapher export story.ink --web dist/', 'Write dist/index.html; open it to play']],
+  },
+];
+
+function findCommand(name: string): CommandSpec | undefined {
+  return COMMANDS.find(command => command.name === name);
+}
+
+/** Whether a command accepts an option, by the key it's stored under. */
+export function commandAccepts(command: CommandName, key: string): boolean {
+  return !!findCommand(command)?.options.some(option => option.key === key);
+}
+
+function editDistance(a: string, b: string): number {
+  const row = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    let diagonal = row[0];
+    row[0] = i;
+    for (let j = 1; j <= b.length; j++) {
+      const above = row[j];
+      row[j] = Math.min(row[j] + 1, row[j - 1] + 1, diagonal + (a[i - 1] === b[j - 1] ? 0 : 1));
+      diagonal = above;
     }
+  }
+  return row[b.length];
+}
 
-    if (arg === '--no-save') {
-      options.noSave = true;
-      continue;
+/** The closest candidate within a few typos, if any. */
+function suggest(input: string, candidates: string[]): string | undefined {
+  let best: string | undefined;
+  let bestDistance = Math.max(2, Math.floor(input.length / 3)) + 1;
+  for (const candidate of candidates) {
+    const distance = editDistance(input, candidate);
+    if (distance < bestDistance) {
+      best = candidate;
+      bestDistance = distance;
     }
+  }
+  return best;
+}
+
+/**
+ * The command the arguments are for. It's the first positional argument, or
+ * `run` when that's a story rather than a command name. Values of options
+ * that come before it are skipped, so `--seed 5 run story.ink` works.
+ */
+function locateCommand(argv: string[]): { spec: CommandSpec | null; index: number } {
+  const takesValue = new Set(
+    [...GLOBAL_OPTIONS, ...COMMANDS.flatMap(command => command.options)]
+      .filter(option => option.type !== 'flag' && option.type !== 'count')
+      .flatMap(option => [option.flag, option.short].filter(Boolean) as string[]),
+  );
 
-    if (arg === '--seed') {
-      options.seed = parseInt(argv[++i], 10);
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (arg === '--') {
+      return { spec: argv[i + 1] === undefined ? null : findCommand('run')!, index: -1 };
+    }
+    if (arg.startsWith('-') && arg !== '-') {
+      if (takesValue.has(arg)) i++;
       continue;
     }
 
-    if (arg === '--output' || arg === '-o') {
-      options.output = argv[++i];
-      continue;
+    const spec = findCommand(arg);
+    if (spec) return { spec, index: i };
+
+    if (!path.extname(arg) && !fs.existsSync(arg)) {
+      const suggestion = suggest(arg, COMMANDS.map(command => command.name));
+      throw new UsageError(`Unknown command "${arg}"${suggestion ? `. Did you mean "${suggestion}"?` : ''}`);
     }
+    return { spec: findCommand('run')!, index: -1 };
+  }
 
-    if (arg === '--watch' || arg === '-w') {
-      options.watch = true;
-      continue;
+  return { spec: null, index: -1 };
+}
+
+function readValue(option: OptionSpec, raw: string | undefined, command: CommandName | null): unknown {
+  if (raw === undefined) {
+    throw new UsageError(`${option.flag} needs a value: ${option.flag} ${option.value ?? '<value>'}`, command);
+  }
+
+  if (option.choices && !option.choices.includes(raw)) {
+    const suggestion = suggest(raw, [...option.choices]);
+    throw new UsageError(
+      `${option.flag} must be one of: ${option.choices.join(', ')} (got "${raw}")${suggestion ? `. Did you mean "${suggestion}"?` : ''}`,
+      command,
+    );
+  }
+
+  if (option.type === 'integer') {
+    if (!/^-?\d+$/.test(raw)) {
+      throw new UsageError(`${option.flag} expects a whole number, got "${raw}"`, command);
+    }
+    const value = parseInt(raw, 10);
+    if (option.min !== undefined && value < option.min) {
+      throw new UsageError(`${option.flag} must be at least ${option.min}, got ${value}`, command);
     }
+    return value;
+  }
+
+  return raw;
+}
+
+/** Turn "-vvs" into "-v -v -s" when every letter is a flag; anything else is left alone. */
+function expandShortFlags(arg: string, options: OptionSpec[]): string[] {
+  if (!/^-[a-zA-Z]{2,}$/.test(arg)) return [arg];
+
+  const letters = arg.slice(1).split('').map(letter => `-${letter}`);
+  const isFlag = (short: string) => options.some(option => option.short === short && (option.type === 'flag' || option.type === 'count'));
+  return letters.every(isFlag) ? letters : [arg];
+}
+
+function unknownOption(flag: string, spec: CommandSpec | null, allowed: OptionSpec[]): UsageError {
+  const name = flag.split('=')[0];
+  const where = spec ? ` for ${spec.name}` : '';
+  const owners = COMMANDS.filter(command => command.options.some(option => option.flag === name || option.short === name));
+
+  if (owners.length > 0) {
+    return new UsageError(`${name} is not an option${where}; it's used by: ${owners.map(command => command.name).join(', ')}`, spec?.name ?? null);
+  }
+
+  const suggestion = name.startsWith('--') ? suggest(name, allowed.map(option => option.flag)) : undefined;
+  return new UsageError(`Unknown option ${name}${where}${suggestion ? `. Did you mean ${suggestion}?` : ''}`, spec?.name ?? null);
+}
+
+/**
+ * Parse the command line against the command's own options plus the global
+ * ones. Unknown options, missing or malformed values and stray arguments are
+ * errors (UsageError) rather than being ignored. `--opt=value` works for any
+ * option that takes a value, and `--` ends the options.
+ */
+export function parseArgs(argv: string[] = process.argv.slice(2)): ParsedArgs {
+  const { spec, index: commandIndex } = locateCommand(argv);
+  const command = spec?.name ?? null;
+  const allowed = [...GLOBAL_OPTIONS, ...(spec?.options ?? [])];
+
+  const options: Record<string, unknown> = { plugins: [] };
+  for (const option of allowed) {
+    options[option.key] = option.default ?? (option.type === 'flag' ? false : option.type === 'count' ? 0 : option.type === 'list' ? [] : undefined);
+  }
+
+  const positionals: string[] = [];
+  const tokens = argv.flatMap((arg, i) => (i === commandIndex ? [] : expandShortFlags(arg, allowed)));
 
-    if (arg === '--json') {
-      options.json = true;
+  for (let i = 0; i < tokens.length; i++) {
+    const arg = tokens[i];
+
+    if (arg === '--') {
+      positionals.push(...tokens.slice(i + 1));
+      break;
+    }
+    if (!arg.startsWith('-') || arg === '-') {
+      positionals.push(arg);
       continue;
     }
 
-    if (arg === '--save' || arg === '-S') {
-      options.saveFile = argv[++i];
-      continue;
+    const [flag, inline] = arg.startsWith('--') && arg.includes('=')
+      ? [arg.slice(0, arg.indexOf('=')), arg.slice(arg.indexOf('=') + 1)]
+      : [arg, undefined];
+    const option = allowed.find(candidate => candidate.flag === flag || candidate.short === flag);
+    if (!option) {
+      throw unknownOption(arg, spec, allowed);
     }
 
-    if (arg.startsWith('-')) {
+    if (option.type === 'flag' || option.type === 'count') {
+      if (inline !== undefined) {
+        throw new UsageError(`${option.flag} doesn't take a value`, command);
+      }
+      options[option.key] = option.type === 'count' ? (options[option.key] as number) + 1 : option.sets ?? true;
+      if (option.key === 'help' || option.key === 'version') break;
       continue;
     }
 
-    if (!command && ['run', 'compile', 'watch', 'replay'].includes(arg)) {
-      command = arg as CommandType;
-      continue;
+    // A following option is a missing value, not the value (negative numbers aside).
+    const next = tokens[i + 1];
+    const raw = inline ?? (next !== undefined && (!next.startsWith('-') || /^-\d/.test(next) || next === '-') ? tokens[++i] : undefined);
+    const value = readValue(option, raw, command);
+
+    if (option.type === 'list') {
+      const values = option.commaSeparated
+        ? String(value).split(',').map(item => item.trim()).filter(Boolean)
+        : [String(value)];
+      (options[option.key] as string[]).push(...values);
+    } else {
+      options[option.key] = value;
     }
+  }
 
-    if (!file && (arg.endsWith('.ink') || arg.endsWith('.json') || arg.endsWith('.txt') || arg.endsWith('.md'))) {
-      file = arg;
-      continue;
+  const help = options.help === true;
+  const version = options.version === true;
+  delete options.help;
+  delete options.version;
+
+  if (spec && !help && !version) {
+    if (positionals.length === 0) {
+      throw new UsageError(`${spec.name} needs a file: calligrapher ${spec.name} ${spec.args}`, command);
+    }
+    if (!spec.variadic && positionals.length > 1) {
+      throw new UsageError(`Unexpected argument "${positionals[1]}" (${spec.name} takes one file)`, command);
+    }
+    for (const file of positionals) {
+      const ext = path.extname(file).toLowerCase();
+      if (spec.extensions && !spec.extensions.includes(ext)) {
+        throw new UsageError(`${spec.name} needs a ${spec.extensions.join(', ')} file, got "${file}"`, command);
+      }
     }
+    // `calligrapher test` replays a transcript from the start of the story, so
+    // one recorded from a resumed save could never match.
+    if (options.output !== undefined && options.saveFile !== undefined) {
+      throw new UsageError(`--output records from the start of the story and can't be used with --save`, command);
+    }
+  }
+
+  return { command, file: positionals[0], files: positionals, options: options as unknown as CommandOptions, help, version };
+}
+
+function optionLines(options: OptionSpec[]): string[] {
+  const labels = options.map(option => {
+    const names = option.short ? `${option.short}, ${option.flag}` : `    ${option.flag}`;
+    return option.value ? `${names} ${option.value}` : names;
+  });
+  const width = Math.max(...labels.map(label => label.length)) + 2;
+  return options.map((option, i) => `  ${labels[i].padEnd(width)}${option.description}`);
+}
 
-    remaining.push(arg);
+function exampleLines(examples: Array<[string, string]>): string[] {
+  return examples.flatMap(([example, description]) => example.length < 41
+    ? [`  ${example.padEnd(41)}${description}`]
+    : [`  ${example}`, `  ${' '.repeat(41)}${description}`]);
+}
+
+/** Help for one command: usage, its options, the global options and examples. */
+export function formatCommandHelp(name: CommandName): string {
+  const spec = findCommand(name)!;
+  const lines = [
+    '',
+    `Usage: calligrapher ${spec.name} ${spec.args} [options]`,
+    '',
+    spec.summary,
+    '',
+    'Options:',
+    ...optionLines(spec.options),
+    '',
+    'Global options:',
+    ...optionLines(GLOBAL_OPTIONS),
+  ];
+  if (spec.examples?.length) {
+    lines.push('', 'Examples:', ...exampleLines(spec.examples));
   }
+  return lines.join('\n') + '\n';
+}
 
-  return { command, file, options: options as RunOptions | CompileOptions | CommonOptions, remaining };
-}
\ No newline at end of file
+/** The command list, global options and examples from every command, for `calligrapher --help`. */
+export function formatGeneralHelp(): string {
+  const width = Math.max(...COMMANDS.map(command => `${command.name} ${command.args}`.length)) + 2;
+  return [
+    'Usage: calligrapher [command] <file> [options]',
+    '',
+    'Commands:',
+    ...COMMANDS.map(command => `  ${`${command.name} ${command.args}`.padEnd(width)}${command.summary}`),
+    '',
+    'Global options:',
+    ...optionLines(GLOBAL_OPTIONS),
+    '',
+    'Run "calligrapher <command> --help" for the options of a command.',
+    '',
+    'Examples:',
+    ...exampleLines(COMMANDS.flatMap(command => command.examples ?? [])),
+  ].join('\n') + '\n';
+}
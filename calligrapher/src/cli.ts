@@ -1,41 +1,110 @@
 import * as fs from 'fs';
+import * as os from 'os';
 import * as path from 'path';
 import { Story } from 'inkjs';
 import enquirer from 'enquirer';
 import chalk from 'chalk';
 import figures from 'figures';
 import boxen from 'boxen';
-import { compileInk, findInklecate, inkToJson } from './compiler';
+import { CompileOptions as CompileCommandOptions, ConvertOptions, ExploreOptions, ExportOptions, GraphOptions, LintOptions, RunOptions, SavesOptions, ServeOptions, StatsOptions } from './args';
+import { CompilerBackend, compileInk, compileInkjs } from './compiler';
+import { textStoryToInk } from './convert';
+import { formatInkValue, runDebugCommand } from './debugConsole';
+import { formatDiagnostic } from './diagnostics';
+import { LintFinding, lintInk, loadLintConfig } from './lint';
+import { presentationTags, skippableDelay, typeOut } from './pacing';
+import { CalligrapherPlugin, PluginHost } from './plugins';
+import { DEFAULT_EXPLORE_LIMITS, ExploreReport, exploreStory } from './explorer';
+import { buildStoryGraph, renderGraph } from './graph';
+import { ChoiceSnapshot, describeSnapshot } from './history';
+import { RestoredSave, SaveData, deleteSave, formatPlaytime, listSaves, readSave, slotName } from './saves';
+import { StoryCompileError, StoryRunner, loadStoryJson } from './runner';
+import { StoryServer } from './server';
+import { exportWeb } from './webExport';
+import { parseScriptedChoice, readChoiceScript, runScriptedPlaythrough } from './scripted';
+import { StoryStats, WORDS_PER_MINUTE, storyStats } from './stats';
+import {
+  describeEvent,
+  diffTranscripts,
+  loadTranscript,
+  replayTranscript,
+  saveTranscript,
+  transcriptStoryPath,
+} from './transcript';
+import { TEXT_STORY_END, enterSection, parseTextStory } from './textStory';
+import { DEFAULT_THEME, Theme, renderText } from './theme';
+import { StoryWatcher, collectInkDependencies } from './watcher';
 
 interface CLIOptions {
   verbose: number;
   silent: boolean;
+  compiler?: CompilerBackend;
+  seed?: number;
+  undoLimit?: number;
+  theme?: Theme;
+  /** Characters per second for typewriter output; unset prints lines whole. */
+  typewriterSpeed?: number;
+  /** Ask for Enter after every line instead of running on to the next choice. */
+  step?: boolean;
+  plugins?: CalligrapherPlugin[];
 }
 
-interface StoryState {
-  currentText: string;
-  choices: string[];
-  canContinue: boolean;
-  tags: string[];
+interface CancellablePrompt {
+  cancel(): Promise<void>;
 }
 
-export class CalligrapherCLI {
-  private story: Story | null = null;
-  private storyContent: string = '';
-  private currentState: StoryState = {
-    currentText: '',
-    choices: [],
-    canContinue: false,
-    tags: [],
+/** The parts of an enquirer select prompt that `bindChoiceKeys` reaches into. */
+interface SelectPrompt extends CancellablePrompt {
+  index: number;
+  choices: Array<{ name: string }>;
+  dispatch(input: string, key: unknown): Promise<void>;
+  submit(): Promise<void>;
+}
+
+/**
+ * Let single keys pick items on a select prompt: pressing one focuses the
+ * choice it names and submits it, as Enter would. Other keys behave as usual.
+ */
+function bindChoiceKeys(prompt: SelectPrompt, keys: Record<string, string>): void {
+  const dispatch = prompt.dispatch;
+  prompt.dispatch = function (this: SelectPrompt, input, key) {
+    const name = input ? keys[input.toLowerCase()] : undefined;
+    const index = name === undefined ? -1 : this.choices.findIndex(choice => choice.name === name);
+    if (index === -1) return dispatch.call(this, input, key);
+    this.index = index;
+    return this.submit();
   };
+}
+
+/**
+ * The terminal front end. Playing a story is the StoryRunner's job; this
+ * class prompts, prints and handles the commands that don't play anything.
+ */
+export class CalligrapherCLI {
+  private runner: StoryRunner | null = null;
   private options: CLIOptions;
-  private saveFile?: string;
+  private activePrompt: CancellablePrompt | null = null;
+  private pendingReload: string | null = null;
+  private reloadListener: (() => void) | null = null;
+  private storyPath?: string;
+  private transcriptPath?: string;
+  private observedStory: Story | null = null;
+  private watchedVariables = new Set<string>();
+  private noSave = false;
+  private resumeFrom?: string;
+  private plugins: PluginHost;
 
   constructor(options: CLIOptions = { verbose: 0, silent: false }) {
     this.options = options;
+    this.plugins = new PluginHost(options.plugins);
   }
 
-  async runFile(filePath: string, _opts?: unknown): Promise<void> {
+  async runFile(filePath: string, opts: Partial<RunOptions> = {}): Promise<void> {
+    this.storyPath = filePath;
+    this.transcriptPath = opts.output;
+    this.noSave = !!opts.noSave;
+    this.resumeFrom = opts.saveFile;
+
     try {
       this.printHeader('Calligrapher');
 
@@ -45,16 +114,14 @@ export class CalligrapherCLI {
 
       const ext = path.extname(filePath).toLowerCase();
 
-      if (ext === '.ink') {
+      if (ext === '.ink' || ext === '.json') {
         await this.runInkStory(filePath);
-      } else if (ext === '.json') {
-        await this.runJsonStory(filePath);
       } else if (ext === '.txt' || ext === '.md') {
         await this.runTextStory(filePath);
       } else {
         console.log(chalk.yellow(`\n📝 Unsupported file format: ${ext}\n`));
         console.log('Supported formats:');
-        console.log('  - .ink  Ink source files (requires inklecate)');
+        console.log('  - .ink  Ink source files');
         console.log('  - .json Compiled Ink stories');
         console.log('  - .txt  Simple text adventures');
       }
@@ -65,253 +132,722 @@ export class CalligrapherCLI {
     }
   }
 
-  private async runInkStory(filePath: string): Promise<void> {
-    if (this.options.verbose > 0) {
-      console.log(chalk.cyan(`\n📦 Compiling: ${filePath}\n`));
+  async play(filePath: string, opts: Partial<RunOptions> = {}): Promise<void> {
+    if (opts.choicesFile || opts.choose?.length) {
+      await this.playScripted(filePath, opts);
+      return;
     }
 
-    const inklecatePath = findInklecate();
-    if (!inklecatePath) {
-      console.log(chalk.yellow('\n⚠️  inklecate compiler not found!\n'));
-      console.log('Please install inklecate from:');
-      console.log('  https://github.com/inkle/ink/releases\n');
-      console.log('For now, using basic text story mode...\n');
-      await this.runTextStory(filePath);
+    if (!opts.watch) {
+      await this.runFile(filePath, opts);
       return;
     }
 
-    const jsonPath = filePath.replace(/\.ink$/, '.json');
+    let watcher: StoryWatcher | null = null;
 
     try {
-      const result = compileInk({ inputPath: filePath, outputPath: jsonPath, verbose: this.options.verbose > 0 });
-      if (!result.success) {
-        throw new Error(result.error);
+      if (!fs.existsSync(filePath)) {
+        throw new Error(`File not found: ${filePath}`);
+      }
+
+      const ext = path.extname(filePath).toLowerCase();
+      if (ext !== '.ink' && ext !== '.json') {
+        throw new Error(`play --watch needs an .ink or .json story, got: ${ext}`);
       }
 
-      await this.runJsonStory(jsonPath);
+      this.storyPath = filePath;
+      this.noSave = !!opts.noSave;
+      this.startRunner(this.loadStoryJson(filePath), this.resolveSeed());
+
+      watcher = new StoryWatcher(filePath, {
+        onChange: changedFile => this.queueReload(filePath, changedFile),
+        onError: error => console.error(chalk.red(`\n✖ Reload failed: ${error.message}`)),
+      });
+      watcher.start();
+
+      this.printHeader(`Playing: ${path.basename(filePath)} (watching for changes)`);
+
+      while (true) {
+        await this.runStoryLoop();
+        console.log(chalk.gray('\n🏁 End of story. Edit the source to reload, or press Ctrl+C to quit.\n'));
+        await new Promise<void>(resolve => {
+          this.reloadListener = resolve;
+        });
+      }
     } catch (error) {
-      console.error(chalk.red(`\n✖ Compilation failed: ${(error as Error).message}`));
-      console.log(chalk.gray('\nFalling back to text mode...'));
-      await this.runTextStory(filePath);
+      watcher?.close();
+      console.error(chalk.red(`\n✖ Error: ${(error as Error).message}`));
+      process.exit(1);
     }
   }
 
-  private async runJsonStory(filePath: string): Promise<void> {
+  /**
+   * Non-interactive playthrough: choices come from --choices <file|-> and/or
+   * repeated --choose flags, and the transcript goes to stdout. Exits 1 when a
+   * scripted choice is not on offer so CI can catch broken playthroughs.
+   */
+  private async playScripted(filePath: string, opts: Partial<RunOptions>): Promise<void> {
     try {
-      let jsonContent = fs.readFileSync(filePath, 'utf-8');
-      if (jsonContent.charCodeAt(0) === 0xFEFF) {
-        jsonContent = jsonContent.slice(1);
+      if (!fs.existsSync(filePath)) {
+        throw new Error(`File not found: ${filePath}`);
       }
-      this.story = new Story(jsonContent);
 
-      this.printHeader('Playing: ' + path.basename(filePath));
+      const ext = path.extname(filePath).toLowerCase();
+      if (ext !== '.ink' && ext !== '.json') {
+        throw new Error(`Scripted play needs an .ink or .json story, got: ${ext}`);
+      }
 
-      await this.runStoryLoop();
+      const lines = [
+        ...(opts.choicesFile ? readChoiceScript(opts.choicesFile) : []),
+        ...(opts.choose || []),
+      ];
+      const script = lines.map(parseScriptedChoice);
 
-      this.printFooter();
+      const runner = this.startRunner(this.loadStoryJson(filePath), this.resolveSeed());
+      const result = runScriptedPlaythrough(runner, script, line => console.log(line));
+
+      if (!result.success) {
+        console.error(chalk.red(`\n✖ ${result.error}`));
+        process.exit(1);
+      }
 
+      if (runner.choices.length > 0 && !this.options.silent) {
+        console.error(chalk.gray(`\n(script ended at a choice point after ${result.choicesMade} choices)`));
+      }
     } catch (error) {
-      throw new Error(`Failed to load story: ${(error as Error).message}`);
+      console.error(chalk.red(`\n✖ Error: ${(error as Error).message}`));
+      process.exit(1);
     }
   }
 
-  private async runTextStory(filePath: string): Promise<void> {
-    const content = fs.readFileSync(filePath, 'utf-8');
-    const lines = content.split('\n').filter(line => line.trim());
-    const story: Record<string, string[]> = {};
-    let currentSection = '';
-    let allSections: string[] = [];
-
-    for (const line of lines) {
-      if (line.startsWith('===')) {
-        currentSection = line.replace(/===/g, '').trim();
-        story[currentSection] = [];
-        if (!allSections.includes(currentSection)) {
-          allSections.push(currentSection);
-        }
-      } else if (currentSection && line.trim()) {
-        story[currentSection].push(line);
-      }
+  private queueReload(filePath: string, changedFile: string): void {
+    const trigger = path.relative(process.cwd(), changedFile);
+    console.log(chalk.cyan(`\n\n↻ ${trigger} changed, recompiling...`));
+
+    try {
+      this.pendingReload = this.loadStoryJson(filePath);
+    } catch (error) {
+      console.error(chalk.red(`✖ ${(error as Error).message}`));
+      console.log(chalk.gray('Keeping the previous version running.\n'));
+      return;
     }
 
-    console.log(chalk.cyanBright(`\n📖 Loaded: ${filePath}\n`));
+    if (this.activePrompt) {
+      this.activePrompt.cancel().catch(() => {});
+    }
+    if (this.reloadListener) {
+      this.reloadListener();
+      this.reloadListener = null;
+    }
+  }
 
-    let current = 'start';
-    let playAgain = true;
+  private applyPendingReload(): void {
+    if (!this.pendingReload || !this.runner) return;
 
-    while (playAgain) {
-      if (!story[current]) {
-        console.log(chalk.red(`\n✖ Section "${current}" not found!\n`));
-        break;
-      }
+    const storyJson = this.pendingReload;
+    this.pendingReload = null;
+
+    const result = this.runner.reload(storyJson);
+    const recorded = result.recordedChoices;
 
-      const lines = story[current];
-      const choiceLines: string[] = [];
+    if (result.method === 'state') {
+      console.log(chalk.green('✓ Reloaded, state restored\n'));
+    } else if (result.replayedChoices === recorded) {
+      console.log(chalk.green(`✓ Reloaded, replayed ${recorded} choice${recorded === 1 ? '' : 's'}\n`));
+    } else {
+      console.log(chalk.yellow(`⚠ Reloaded, but only ${result.replayedChoices} of ${recorded} choices still exist\n`));
+    }
+  }
 
-      for (const line of lines) {
-        if (line.startsWith('*') || line.toLowerCase().includes('[exit]')) {
-          choiceLines.push(line);
-        } else {
-          console.log(chalk.white(line));
+  /**
+   * Compile (for .ink) or read (for .json) a story and return its JSON,
+   * printing compiler diagnostics on failure.
+   */
+  private loadStoryJson(filePath: string): string {
+    if (filePath.endsWith('.ink') && this.options.verbose > 0) {
+      console.log(chalk.cyan(`\n📦 Compiling: ${filePath}\n`));
+    }
+
+    try {
+      return loadStoryJson(filePath, { compiler: this.options.compiler, verbose: this.options.verbose > 0 });
+    } catch (error) {
+      if (error instanceof StoryCompileError) {
+        for (const diagnostic of error.diagnostics) {
+          console.error('\n' + formatDiagnostic(diagnostic));
         }
+        throw new Error(error.message);
       }
+      throw error;
+    }
+  }
 
-      const choices: string[] = [];
-      const targets: Record<string, string> = {};
+  private async runInkStory(filePath: string): Promise<void> {
+    const storyJson = this.loadStoryJson(filePath);
 
-      for (const choice of choiceLines) {
-        const textMatch = choice.match(/^\*?\s*(.+?)\s*->\s*(\S+)/);
-        if (textMatch) {
-          const choiceText = textMatch[1].replace(/^\*\s*/, '').replace(/[\[\]]/g, '').trim();
-          const target = textMatch[2];
-          choices.push(choiceText);
-          targets[choiceText] = target;
-        }
+    try {
+      const runner = this.startRunner(storyJson, this.resolveSeed());
+      if (this.resumeFrom && this.storyPath) {
+        this.resumeSave(this.resumeFrom);
+      }
+      if (this.transcriptPath) {
+        runner.record();
       }
 
-      if (choices.length > 0) {
-        choices.push('Quit');
+      this.printHeader('Playing: ' + path.basename(filePath));
 
-        const { selection } = await enquirer.prompt<{ selection: number }>({
-          type: 'select',
-          name: 'selection',
-          message: chalk.cyan('What do you do?'),
-          choices: choices,
-        });
+      await this.runStoryLoop();
 
-        const selected = choices[selection];
+      this.writeTranscript();
+      this.printFooter();
 
-        if (selected === 'Quit') {
-          playAgain = false;
-          break;
-        }
+    } catch (error) {
+      throw new Error(`Failed to load story: ${(error as Error).message}`);
+    }
+  }
 
-        current = targets[selected] || current;
-      } else {
-        console.log(chalk.gray('\n[End of this section]\n'));
-        playAgain = false;
+  /**
+   * The runner for this session. Autosaves follow --no-save, and failed
+   * autosaves are only mentioned with -v.
+   */
+  private startRunner(storyJson: string, seed?: number): StoryRunner {
+    this.runner = new StoryRunner(storyJson, {
+      storyPath: this.storyPath,
+      seed,
+      undoLimit: this.options.undoLimit,
+      plugins: this.options.plugins,
+      autosave: !this.noSave,
+    });
+    this.runner.on('error', error => {
+      if (this.options.verbose > 0) {
+        console.error(chalk.yellow(`⚠ ${error.message}`));
       }
-    }
+    });
+    return this.runner;
+  }
 
-    this.printFooter();
+  /**
+   * Seed the story's random state so RANDOM(), shuffles and {~a|b} pick the
+   * same branches for the same seed. Without --seed a seed is picked and
+   * printed so an odd run can be reproduced.
+   */
+  private resolveSeed(): number {
+    if (this.options.seed === undefined) {
+      this.options.seed = Math.floor(Math.random() * 100000);
+      if (!this.options.silent) {
+        console.error(chalk.gray(`🎲 Random seed: ${this.options.seed} (use --seed ${this.options.seed} to reproduce this run)`));
+      }
+    }
+    return this.options.seed;
   }
 
-  private async runStoryLoop(): Promise<void> {
-    if (!this.story) return;
+  private async runTextStory(filePath: string): Promise<void> {
+    const { story, diagnostics } = parseTextStory(filePath);
+
+    for (const diagnostic of diagnostics) {
+      console.error('\n' + formatDiagnostic(diagnostic));
+    }
+    const errors = diagnostics.filter(d => d.severity === 'error').length;
+    if (errors > 0) {
+      throw new Error(`${errors} error${errors === 1 ? '' : 's'} in ${path.basename(filePath)}`);
+    }
+
+    console.log(chalk.cyanBright(`\n📖 Loaded: ${filePath}\n`));
+
+    const variables = { ...story.variables };
+    let current = story.start;
 
     while (true) {
-      this.advanceStory();
+      const view = enterSection(story, current, variables);
+      for (const line of view.lines) {
+        this.displayText(line, []);
+      }
 
-      if (this.currentState.canContinue || this.currentState.choices.length > 0) {
-        await this.displayAndChoose();
-      } else {
+      if (view.choices.length === 0) {
+        console.log(chalk.gray('\n[End of this section]\n'));
         break;
       }
-    }
-  }
 
-  private advanceStory(): void {
-    if (!this.story) return;
+      const choices = view.choices.map((choice, index) => ({ name: `${index + 1}. ${choice.text}`, target: choice.target }));
+      choices.push({ name: '0. Quit', target: TEXT_STORY_END });
 
-    let text = '';
-    if (this.story.canContinue) {
-      text = this.story.Continue() || '';
+      const { selection } = await enquirer.prompt<{ selection: string }>({
+        type: 'select',
+        name: 'selection',
+        message: chalk.cyan('What do you do?'),
+        choices: choices.map(c => c.name),
+      });
+
+      const target = choices.find(c => c.name === selection)?.target ?? TEXT_STORY_END;
+      if (target === TEXT_STORY_END) {
+        break;
+      }
+      console.log('');
+      current = target;
     }
 
-    const choices: string[] = [];
-    this.story.currentChoices.forEach((choice: { text: string }) => {
-      choices.push(choice.text);
-    });
+    this.printFooter();
+  }
 
-    const tags = this.story.currentTags || [];
+  private async runStoryLoop(): Promise<void> {
+    if (!this.runner) return;
 
-    this.currentState = {
-      currentText: text,
-      choices,
-      canContinue: this.story.canContinue || this.story.currentChoices.length > 0,
-      tags,
-    };
+    while (true) {
+      this.applyPendingReload();
+      this.observeVariables();
 
-    this.displayText(text, tags);
+      const line = this.runner.continue();
+      if (line) {
+        await this.presentText(line.text, line.tags);
+      }
+
+      if (this.runner.ended) {
+        break;
+      }
+      await this.displayAndChoose();
+    }
   }
 
   private displayText(text: string, tags: string[]): void {
     if (!text.trim()) return;
+    console.log(renderText(text, tags, this.options.theme ?? DEFAULT_THEME));
+  }
 
-    if (tags.includes('title')) {
-      console.log(chalk.cyanBright.underline(`\n${text}\n`));
-    } else if (tags.includes('scene')) {
-      console.log(chalk.yellow(`\n━━━ ${text} ━━━\n`));
-    } else if (tags.includes('combat')) {
-      console.log(chalk.red(`\n${figures.cross} ${text}\n`));
-    } else if (tags.includes('dialog')) {
-      console.log(chalk.cyan(`  "${text}"`));
-    } else {
-      console.log(chalk.white(text));
+  /**
+   * Show a line as it plays: `#clear` first, typed out with --typewriter,
+   * then `#pause:<seconds>` or `#wait`. Pauses and typing skip on a keypress.
+   */
+  private async presentText(text: string, tags: string[]): Promise<void> {
+    const presentation = presentationTags(tags);
+
+    if (presentation.clear) {
+      console.clear();
+    }
+
+    if (text.trim()) {
+      if (this.options.typewriterSpeed) {
+        await typeOut(renderText(text, tags, this.options.theme ?? DEFAULT_THEME), this.options.typewriterSpeed);
+      } else {
+        this.displayText(text, tags);
+      }
+    }
+
+    if (presentation.pause) {
+      await skippableDelay(presentation.pause * 1000);
+    }
+    if (presentation.wait && !this.options.step && this.runner?.canContinue) {
+      await this.pressToContinue();
     }
   }
 
   private async displayAndChoose(): Promise<void> {
-    if (this.currentState.choices.length > 0) {
-      const choices = this.currentState.choices.map((choice, index) => ({
-        name: `${index + 1}. ${choice}`,
-        value: index,
+    if (!this.runner) return;
+
+    const offered = this.runner.choices;
+    if (offered.length > 0) {
+      const choices: Array<{ name: string; value: number; key?: string }> = offered.map(choice => ({
+        name: `${choice.index + 1}. ${choice.text}`,
+        value: choice.index,
       }));
 
+      const lastChoice = this.runner.history[this.runner.history.length - 1];
+      if (lastChoice) {
+        choices.push({ name: `U. Undo "${lastChoice.choices[lastChoice.chosen]}"`, value: -4, key: 'u' });
+        choices.push({ name: 'H. History', value: -5, key: 'h' });
+      }
       choices.push({ name: '0. Quit', value: -1 });
-      choices.push({ name: 'S. Save game', value: -2 });
+      choices.push({ name: 'S. Save game', value: -2, key: 's' });
+      choices.push({ name: ':  Debug console', value: -3, key: ':' });
 
-      const { choice } = await enquirer.prompt<{ choice: string }>({
+      const keys = Object.fromEntries(choices.filter(c => c.key).map(c => [c.key, c.name]));
+      const answer = await this.ask<{ choice: string }>({
         type: 'select',
         name: 'choice',
         message: chalk.cyan('What do you do?'),
         choices: choices.map(c => c.name),
         stdout: process.stdout,
-      });
+      }, keys);
+      if (!answer) return;
 
+      const { choice } = answer;
       const selectedChoice = choices.find(c => c.name === choice);
       const selectedIndex = selectedChoice?.value;
 
       if (selectedIndex === -1) {
-        console.log(chalk.gray('\nThanks for playing!\n'));
-        process.exit(0);
+        this.quit();
       } else if (selectedIndex === -2) {
         await this.saveGame();
-      } else if (this.story && selectedIndex !== undefined) {
-        this.story.ChooseChoiceIndex(selectedIndex);
+      } else if (selectedIndex === -3) {
+        await this.openDebugConsole();
+      } else if (selectedIndex === -4) {
+        this.undo(1);
+      } else if (selectedIndex === -5) {
+        await this.showHistory();
+      } else if (selectedIndex !== undefined) {
+        this.runner.choose(selectedIndex);
       }
-    } else if (this.currentState.canContinue) {
+    } else if (this.runner.canContinue && this.options.step) {
       await this.pressToContinue();
     }
   }
 
+  /**
+   * Inspect and poke at the running story: variables, visit counts, jumps and
+   * function calls. Returns to the story on an empty line or "continue".
+   */
+  private async openDebugConsole(): Promise<void> {
+    if (!this.runner) return;
+
+    console.log(chalk.magenta(`\n${figures.pointer} Debug console. Type "help" for commands, Enter to return.\n`));
+
+    while (true) {
+      const answer = await this.ask<{ command: string }>({
+        type: 'input',
+        name: 'command',
+        message: chalk.magenta(':'),
+      });
+      if (!answer) return;
+
+      const result = runDebugCommand(this.runner, answer.command, this.watchedVariables);
+      for (const line of result.output) {
+        console.log(chalk.gray(`  ${line}`));
+      }
+      if (result.resume) {
+        console.log('');
+        if (result.rewind) {
+          this.undo(result.rewind);
+        } else if (result.history) {
+          await this.showHistory();
+        }
+        return;
+      }
+    }
+  }
+
+  private undo(steps: number): void {
+    if (!this.runner) return;
+
+    const snapshot = this.runner.undo(steps);
+    if (!snapshot) {
+      const available = this.runner.history.length;
+      console.log(chalk.yellow(`⚠ Can't go back ${steps} choice${steps === 1 ? '' : 's'}; ${available} can be undone\n`));
+      return;
+    }
+    this.showRewind(snapshot);
+  }
+
+  /** List earlier choices, oldest first, and rewind to the one picked. */
+  private async showHistory(): Promise<void> {
+    const entries = this.runner?.history ?? [];
+    if (entries.length === 0) {
+      console.log(chalk.gray('No choices to go back to yet.\n'));
+      return;
+    }
+
+    const choices = entries.map((snapshot, index) => ({
+      name: `${snapshot.turn + 1}. ${describeSnapshot(snapshot)}`,
+      steps: entries.length - index,
+    }));
+    choices.push({ name: 'Cancel', steps: 0 });
+
+    const answer = await this.ask<{ entry: string }>({
+      type: 'select',
+      name: 'entry',
+      message: chalk.cyan('Rewind to which choice?'),
+      choices: choices.map(c => c.name),
+      initial: choices.length - 2,
+      stdout: process.stdout,
+    });
+    if (!answer) return;
+
+    const steps = choices.find(c => c.name === answer.entry)?.steps;
+    if (steps) {
+      this.undo(steps);
+    }
+  }
+
+  /** Show the text that led up to the choice point the story went back to. */
+  private showRewind(snapshot: ChoiceSnapshot): void {
+    console.log(chalk.magenta(`\n↶ Rewound to before "${snapshot.choices[snapshot.chosen]}"\n`));
+    for (const line of snapshot.lines) {
+      this.displayText(line.text, line.tags);
+    }
+  }
+
+  /**
+   * With -v, print variable changes inline as the story runs; the debug
+   * console's "watch" narrows this to specific variables.
+   */
+  private observeVariables(): void {
+    if (!this.runner || this.observedStory === this.runner.story || this.options.verbose === 0) return;
+
+    const story = this.runner.story;
+    this.observedStory = story;
+    story.variablesState.ObserveVariableChange((name, value) => {
+      if (this.runner?.story !== story) return;
+      if (this.watchedVariables.size > 0 && !this.watchedVariables.has(name)) return;
+      const plain = value && typeof value === 'object' && 'valueObject' in value
+        ? (value as { valueObject: unknown }).valueObject
+        : value;
+      console.log(chalk.magenta(`  ${figures.arrowRight} ${name} = ${formatInkValue(plain)}`));
+    });
+  }
+
   private async pressToContinue(): Promise<void> {
-    const { cont } = await enquirer.prompt<{ cont: boolean }>({
+    const answer = await this.ask<{ cont: boolean }>({
       type: 'confirm',
       name: 'cont',
       message: chalk.gray('Press Enter to continue... (or Q to quit)'),
       initial: true,
     });
 
-    if (!cont) {
-      console.log(chalk.gray('\nThanks for playing!\n'));
-      process.exit(0);
+    if (answer && !answer.cont) {
+      this.quit();
     }
   }
 
-  async compile(filePath: string, _opts?: unknown): Promise<void> {
+  private quit(): never {
+    this.writeTranscript();
+    console.log(chalk.gray('\nThanks for playing!\n'));
+    process.exit(0);
+  }
+
+  private writeTranscript(): void {
+    const recorder = this.runner?.transcript;
+    if (!recorder || !this.transcriptPath || !this.storyPath) return;
+
+    try {
+      saveTranscript(this.transcriptPath, recorder.toTranscript(this.storyPath, this.runner!.seed, this.transcriptPath));
+      console.log(chalk.green(`\n✓ Transcript saved to: ${this.transcriptPath}`));
+    } catch (error) {
+      console.error(chalk.red(`\n✖ Failed to save transcript: ${(error as Error).message}`));
+    }
+  }
+
+  /**
+   * Run a prompt, keeping a handle on it so a hot reload can interrupt it.
+   * Resolves to null when the prompt was cancelled for a reload. `keys` maps
+   * single keys to the select choices they pick.
+   */
+  private async ask<T>(question: Parameters<typeof enquirer.prompt>[0], keys?: Record<string, string>): Promise<T | null> {
+    const prompter = new enquirer();
+    prompter.on('prompt', (prompt: SelectPrompt) => {
+      this.activePrompt = prompt;
+      if (keys) bindChoiceKeys(prompt, keys);
+    });
+
+    try {
+      return await prompter.prompt(question) as T;
+    } catch (error) {
+      if (this.pendingReload) {
+        return null;
+      }
+      throw error;
+    } finally {
+      this.activePrompt = null;
+    }
+  }
+
+  async compile(filePath: string, opts: Partial<CompileCommandOptions> = {}): Promise<void> {
+    const result = compileInk({ inputPath: filePath, outputPath: opts.output, backend: this.options.compiler });
+
+    if (opts.format === 'json') {
+      console.log(JSON.stringify({
+        success: result.success,
+        outputPath: result.outputPath,
+        backend: result.backend,
+        diagnostics: result.diagnostics,
+      }, null, 2));
+      process.exit(result.success ? 0 : 1);
+    }
+
     console.log(chalk.cyanBright(`\n📄 Compiling: ${filePath}\n`));
 
+    for (const diagnostic of result.diagnostics) {
+      console.log(formatDiagnostic(diagnostic) + '\n');
+    }
+
+    if (!result.success) {
+      const errors = result.diagnostics.filter(d => d.severity === 'error').length;
+      console.error(chalk.red(`✖ Compilation failed with ${errors} error${errors === 1 ? '' : 's'}\n`));
+      process.exit(1);
+    }
+
+    const warnings = result.diagnostics.filter(d => d.severity === 'warning').length;
+    const summary = warnings > 0 ? chalk.yellow(` (${warnings} warning${warnings === 1 ? '' : 's'})`) : '';
+    console.log(chalk.green(`✓ Compiled: ${result.outputPath}`) + summary + '\n');
+  }
+
+  /**
+   * Turn a .txt/.md adventure into ink source, then compile the result to
+   * check it. Refuses to overwrite an existing file without --force, since
+   * the ink is meant to be edited by hand afterwards.
+   */
+  async convert(filePath: string, opts: Partial<ConvertOptions> = {}): Promise<void> {
+    const outputPath = opts.output || filePath.replace(/\.(txt|md)$/i, '') + '.ink';
+
+    try {
+      if (!fs.existsSync(filePath)) {
+        throw new Error(`File not found: ${filePath}`);
+      }
+      if (!/\.(txt|md)$/i.test(filePath)) {
+        throw new Error(`convert needs a .txt or .md story, got: ${path.extname(filePath)}`);
+      }
+      if (fs.existsSync(outputPath) && !opts.force) {
+        throw new Error(`${outputPath} already exists (use --force to overwrite it)`);
+      }
+
+      console.log(chalk.cyanBright(`\n🔁 Converting: ${filePath}\n`));
+
+      const { story, diagnostics } = parseTextStory(filePath);
+      for (const diagnostic of diagnostics) {
+        console.log(formatDiagnostic(diagnostic) + '\n');
+      }
+      const errors = diagnostics.filter(d => d.severity === 'error').length;
+      if (errors > 0) {
+        throw new Error(`${errors} error${errors === 1 ? '' : 's'} in ${path.basename(filePath)}; nothing written`);
+      }
+
+      fs.writeFileSync(outputPath, textStoryToInk(story, path.basename(filePath)));
+
+      const checkPath = path.join(os.tmpdir(), `calligrapher-convert-${process.pid}.json`);
+      const result = compileInk({ inputPath: outputPath, outputPath: checkPath, backend: this.options.compiler, noThrow: true });
+      fs.rmSync(checkPath, { force: true });
+
+      for (const diagnostic of result.diagnostics) {
+        console.log(formatDiagnostic(diagnostic) + '\n');
+      }
+      if (!result.success || result.diagnostics.length > 0) {
+        console.error(chalk.red(`✖ Wrote ${outputPath}, but it doesn't compile cleanly\n`));
+        process.exit(1);
+      }
+
+      console.log(chalk.green(`✓ Converted: ${outputPath}`) + chalk.gray(` (${Object.keys(story.sections).length} knots, compiles cleanly)\n`));
+    } catch (error) {
+      console.error(chalk.red(`\n✖ ${(error as Error).message}\n`));
+      process.exit(1);
+    }
+  }
+
+  /**
+   * Report likely authoring mistakes in an ink story. Exits 1 when there are
+   * errors, or any findings at all with --strict, so CI can gate on it.
+   */
+  async lint(filePath: string, opts: Partial<LintOptions> = {}): Promise<void> {
+    let findings: LintFinding[];
     try {
-      const jsonPath = inkToJson(filePath);
-      console.log(chalk.green(`✓ Compiled: ${jsonPath}\n`));
+      const configured = loadLintConfig(filePath)?.config.allowedTags;
+      const allowedTags = configured || opts.allowTags?.length
+        ? Array.from(new Set([...(configured || []), ...(opts.allowTags || [])]))
+        : undefined;
+      findings = lintInk(filePath, allowedTags);
     } catch (error) {
-      console.error(chalk.red(`\n✖ Compilation failed: ${(error as Error).message}\n`));
+      console.error(chalk.red(`\n✖ ${(error as Error).message}\n`));
+      process.exit(1);
+    }
+
+    const count = (severity: LintFinding['severity']) => findings.filter(finding => finding.severity === severity).length;
+    const [errors, warnings, todos] = [count('error'), count('warning'), count('todo')];
+    const failed = errors > 0 || (!!opts.strict && findings.length > 0);
+
+    if (opts.format === 'json') {
+      console.log(JSON.stringify({ file: filePath, errors, warnings, todos, findings }, null, 2));
+      process.exit(failed ? 1 : 0);
+    }
+
+    console.log(chalk.cyanBright(`\n🔎 Linting: ${filePath}\n`));
+
+    for (const finding of findings) {
+      console.log(formatDiagnostic({ ...finding, message: `${finding.message} [${finding.rule}]` }) + '\n');
+    }
+
+    if (findings.length === 0) {
+      console.log(chalk.green('✓ No problems found\n'));
+      return;
+    }
+
+    const plural = (n: number, word: string) => `${n} ${word}${n === 1 ? '' : 's'}`;
+    const summary = `${plural(errors, 'error')}, ${plural(warnings, 'warning')}, ${plural(todos, 'todo')}`;
+    if (failed) {
+      console.error(chalk.red(`✖ ${summary}\n`));
+      process.exit(1);
+    }
+    console.log(chalk.yellow(`⚠ ${summary}\n`));
+  }
+
+  /**
+   * Compile an .ink file for graph and stats, which read the parsed source.
+   * Compile errors are printed as `compile` prints them, and end the run.
+   */
+  private parseInkOrExit(filePath: string, command: string) {
+    if (!fs.existsSync(filePath)) {
+      console.error(chalk.red(`\n✖ File not found: ${filePath}\n`));
       process.exit(1);
     }
+    if (path.extname(filePath).toLowerCase() !== '.ink') {
+      console.error(chalk.red(`\n✖ ${command} needs .ink source, got: ${path.extname(filePath)}\n`));
+      process.exit(1);
+    }
+
+    const { parsed, diagnostics, error } = compileInkjs(filePath);
+    if (error !== undefined || !parsed) {
+      for (const diagnostic of diagnostics.filter(d => d.severity === 'error')) {
+        console.error('\n' + formatDiagnostic(diagnostic));
+      }
+      console.error(chalk.red(`\n✖ Compilation failed; fix the errors above first\n`));
+      process.exit(1);
+    }
+    return parsed;
   }
 
-  async watch(filePath: string, _opts?: unknown): Promise<void> {
+  /** Print the story's flow graph (knots, stitches, diverts and choices) as DOT, Mermaid or JSON. */
+  async graph(filePath: string, opts: Partial<GraphOptions> = {}): Promise<void> {
+    const parsed = this.parseInkOrExit(filePath, 'graph');
+    const format = opts.format || 'dot';
+    const output = renderGraph(buildStoryGraph(parsed, !!opts.collapseStitches), format);
+
+    if (opts.output) {
+      fs.writeFileSync(opts.output, output);
+      console.log(chalk.green(`✓ Wrote ${format} graph: ${opts.output}`));
+    } else {
+      process.stdout.write(output);
+    }
+  }
+
+  async stats(filePath: string, opts: Partial<StatsOptions> = {}): Promise<void> {
+    const stats = storyStats(this.parseInkOrExit(filePath, 'stats'));
+
+    if (opts.format === 'json') {
+      console.log(JSON.stringify(stats, null, 2));
+      return;
+    }
+    this.printStats(filePath, stats);
+  }
+
+  private printStats(filePath: string, stats: StoryStats): void {
+    const number = (n: number) => n.toLocaleString('en-US');
+    const width = Math.max(4, ...stats.knots.map(knot => knot.name.length));
+
+    console.log(chalk.cyanBright(`\n📊 Stats: ${filePath}\n`));
+    console.log(chalk.bold(`  ${'Knot'.padEnd(width)}  ${'Words'.padStart(7)}  ${'Choices'.padStart(7)}  ${'Stitches'.padStart(8)}`));
+    for (const knot of stats.knots) {
+      console.log(`  ${chalk.cyan(knot.name.padEnd(width))}  ${number(knot.words).padStart(7)}  ${String(knot.choices).padStart(7)}  ${String(knot.stitches).padStart(8)}`);
+    }
+
+    const { totals, longestPath, readMinutes } = stats;
+    console.log(chalk.bold('\nTotals'));
+    console.log(`  ${totals.knots} knots, ${totals.stitches} stitches, ${number(totals.words)} words, ${totals.choices} choices`);
+    console.log(chalk.bold('\nLongest path'));
+    console.log(`  ${longestPath.knots.join(' → ') || '(no knots)'}`);
+    console.log(chalk.gray(`  ${longestPath.knots.length} knots, ${number(longestPath.words)} words`));
+    if (!longestPath.exhaustive) {
+      console.log(chalk.yellow('  Too many routes to try them all; this is the longest one found.'));
+    }
+    console.log(chalk.bold('\nRead time'));
+    console.log(`  ~${readMinutes.longestPath} min for the longest path, ~${readMinutes.total} min to read everything`);
+    console.log(chalk.gray(`  at ${WORDS_PER_MINUTE} words per minute\n`));
+  }
+
+  async watch(filePath: string, opts: Partial<CompileCommandOptions> = {}): Promise<void> {
     console.log(chalk.cyanBright(`\n👀 Watching: ${filePath}\n`));
     console.log('Press Ctrl+C to stop watching.\n');
 
@@ -320,45 +856,353 @@ export class CalligrapherCLI {
       process.exit(1);
     }
 
-    let md5Previous = this.calculateMd5(filePath);
+    const watcher = new StoryWatcher(filePath, {
+      onChange: changedFile => {
+        this.rebuild(filePath, opts.output, changedFile);
+        console.log(chalk.gray('Waiting for changes...\n'));
+      },
+      onError: error => console.error(chalk.red(`✖ Rebuild failed: ${error.message}`)),
+    });
+
+    this.rebuild(filePath, opts.output);
+    watcher.start();
 
-    console.log(chalk.gray(`Initial MD5: ${md5Previous}`));
+    if (this.options.verbose > 0) {
+      for (const file of watcher.files) {
+        console.log(chalk.gray(`  watching ${path.relative(process.cwd(), file)}`));
+      }
+    }
     console.log(chalk.gray('Waiting for changes...\n'));
 
-    const fsWait = setInterval(() => {
-      const md5Current = this.calculateMd5(filePath);
+    process.on('SIGINT', () => {
+      watcher.close();
+      console.log(chalk.gray('\n\nStopping watch...\n'));
+      process.exit(0);
+    });
+  }
+
+  /**
+   * Serve the story's JSON API and event sockets until Ctrl+C, recompiling
+   * on every edit. A story that doesn't compile at start-up isn't served.
+   */
+  async serve(filePath: string, opts: Partial<ServeOptions> = {}): Promise<void> {
+    let server: StoryServer;
+    try {
+      server = new StoryServer(filePath, {
+        port: opts.port,
+        host: opts.host,
+        origin: opts.origin,
+        compiler: this.options.compiler,
+        seed: opts.seed,
+        plugins: this.options.plugins,
+        onReload: (changedFile, sessions) => {
+          const trigger = path.relative(process.cwd(), changedFile);
+          console.log(chalk.green(`✓ ${trigger} changed; rebuilt and reloaded ${sessions} session${sessions === 1 ? '' : 's'}`));
+        },
+        onCompileError: error => {
+          for (const diagnostic of error.diagnostics) {
+            console.error('\n' + formatDiagnostic(diagnostic));
+          }
+          console.error(chalk.red(`\n✖ ${error.message}`));
+          console.log(chalk.gray('Sessions keep the previous build.\n'));
+        },
+      });
+    } catch (error) {
+      if (error instanceof StoryCompileError) {
+        for (const diagnostic of error.diagnostics) {
+          console.error('\n' + formatDiagnostic(diagnostic));
+        }
+      }
+      console.error(chalk.red(`\n✖ ${(error as Error).message}`));
+      process.exit(1);
+    }
+
+    let address: { host: string; port: number };
+    try {
+      address = await server.listen();
+    } catch (error) {
+      console.error(chalk.red(`\n✖ Can't listen on ${opts.host}:${opts.port}: ${(error as Error).message}`));
+      process.exit(1);
+    }
+
+    const url = `http://${address.host}:${address.port}`;
+    console.log(chalk.cyanBright(`\n🌐 Serving ${filePath} at ${url}\n`));
+    console.log(chalk.gray(`  POST   ${url}/sessions               start a session`));
+    console.log(chalk.gray(`  GET    ${url}/sessions/:id           session state`));
+    console.log(chalk.gray(`  POST   ${url}/sessions/:id/choose    { "index": 0 }`));
+    console.log(chalk.gray(`  POST   ${url}/sessions/:id/save      { "slot": "quicksave" }`));
+    console.log(chalk.gray(`  POST   ${url}/sessions/:id/load      { "slot": "quicksave" }`));
+    console.log(chalk.gray(`  WS     ${url.replace(/^http/, 'ws')}/sessions/:id/events`));
+    console.log('\nPress Ctrl+C to stop.\n');
+
+    process.on('SIGINT', () => {
+      console.log(chalk.gray('\n\nStopping server...\n'));
+      server.close().finally(() => process.exit(0));
+    });
+  }
+
+  async export(filePath: string, opts: Partial<ExportOptions> = {}): Promise<void> {
+    if (!opts.web) {
+      console.error(chalk.red('\n✖ export needs a target: --web <dir>'));
+      process.exit(1);
+    }
+
+    console.log(chalk.cyanBright(`\n📦 Exporting: ${filePath}\n`));
+
+    try {
+      const result = exportWeb(filePath, opts.web, { compiler: this.options.compiler, theme: this.options.theme });
+      for (const warning of result.warnings) {
+        console.log(chalk.yellow(`⚠ ${warning}`));
+      }
+      console.log(chalk.green(`✓ "${result.title}" written to ${result.file} (${Math.round(result.bytes / 1024)} KB)`));
+      console.log(chalk.gray('  Open it in a browser to play; it needs no server or network.\n'));
+    } catch (error) {
+      if (error instanceof StoryCompileError) {
+        for (const diagnostic of error.diagnostics) {
+          console.error('\n' + formatDiagnostic(diagnostic));
+        }
+      }
+      console.error(chalk.red(`\n✖ Export failed: ${(error as Error).message}`));
+      process.exit(1);
+    }
+  }
+
+  private rebuild(filePath: string, outputPath?: string, changedFile?: string): boolean {
+    const trigger = changedFile ? path.relative(process.cwd(), changedFile) : 'initial build';
+    if (changedFile) {
+      console.log(chalk.cyan(`\n=== ${trigger} changed, recompiling ===\n`));
+    }
+
+    const startedAt = Date.now();
+    const result = compileInk({ inputPath: filePath, outputPath, backend: this.options.compiler });
+    const elapsed = Date.now() - startedAt;
+
+    for (const diagnostic of result.diagnostics) {
+      console.log(formatDiagnostic(diagnostic) + '\n');
+    }
+
+    if (result.success) {
+      console.log(chalk.green(`✓ Compiled: ${result.outputPath}`) + chalk.gray(` (${elapsed}ms, triggered by ${trigger})\n`));
+    } else {
+      console.error(chalk.red(`✖ Compilation failed`) + chalk.gray(` (${elapsed}ms, triggered by ${trigger})\n`));
+    }
+
+    return result.success;
+  }
+
+  /**
+   * Replay recorded transcripts against the current build of their stories
+   * and report the first event where the output changed. Directories are
+   * searched for *.transcript.json files.
+   */
+  async test(paths: string[]): Promise<void> {
+    const files = paths.flatMap(p => fs.existsSync(p) && fs.statSync(p).isDirectory()
+      ? fs.readdirSync(p).filter(f => f.endsWith('.transcript.json')).sort().map(f => path.join(p, f))
+      : [p]);
+
+    if (files.length === 0) {
+      console.error(chalk.red('\n✖ No transcripts to test\n'));
+      process.exit(1);
+    }
+
+    let failures = 0;
 
-      if (md5Current !== md5Previous) {
-        md5Previous = md5Current;
-        console.log(chalk.cyan(`\n=== File changed, recompiling ===\n`));
+    for (const file of files) {
+      try {
+        const transcript = loadTranscript(file);
+        const story = new Story(this.loadStoryJson(transcriptStoryPath(file, transcript)));
+        this.plugins.attach(story);
+        const actual = replayTranscript(story, transcript);
+        const diff = diffTranscripts(transcript.events, actual);
+
+        if (!diff) {
+          console.log(chalk.green(`${figures.tick} ${file}`));
+          continue;
+        }
+
+        failures++;
+        console.log(chalk.red(`${figures.cross} ${file}`) + chalk.gray(` (first difference at event ${diff.index + 1})`));
+        for (const event of diff.context) {
+          console.log(chalk.gray(`    ${describeEvent(event)}`));
+        }
+        console.log(chalk.red(`  - ${describeEvent(diff.expected)}`));
+        console.log(chalk.green(`  + ${describeEvent(diff.actual)}`));
+      } catch (error) {
+        failures++;
+        console.log(chalk.red(`${figures.cross} ${file}`) + chalk.gray(` (${(error as Error).message})`));
+      }
+    }
 
+    console.log(failures === 0
+      ? chalk.green(`\n${files.length} transcript${files.length === 1 ? '' : 's'} passed\n`)
+      : chalk.red(`\n${failures} of ${files.length} transcripts changed\n`));
+    process.exit(failures === 0 ? 0 : 1);
+  }
+
+  /**
+   * Walk every branch of a story and report coverage, endings, runtime errors
+   * and choice-less loops. With -o, the shortest choice path to each ending is
+   * written as a choice script usable with `play --choices`.
+   */
+  async explore(filePath: string, opts: Partial<ExploreOptions> = {}): Promise<void> {
+    try {
+      if (!fs.existsSync(filePath)) {
+        throw new Error(`File not found: ${filePath}`);
+      }
+
+      const ext = path.extname(filePath).toLowerCase();
+      if (ext !== '.ink' && ext !== '.json') {
+        throw new Error(`explore needs an .ink or .json story, got: ${ext}`);
+      }
+
+      const limits = {
+        ...DEFAULT_EXPLORE_LIMITS,
+        ...(opts.maxDepth !== undefined && { maxDepth: opts.maxDepth }),
+        ...(opts.maxStates !== undefined && { maxStates: opts.maxStates }),
+      };
+
+      let storyJson: string;
+      let functions: string[] = [];
+      if (ext === '.ink') {
+        // Compile separately with every visit counted, so coverage is exact
+        // without touching the story's regular .json output.
+        const outputPath = path.join(os.tmpdir(), `calligrapher-explore-${process.pid}.json`);
         try {
-          const jsonPath = inkToJson(filePath);
-          console.log(chalk.green(`✓ Compiled: ${jsonPath}\n`));
-          console.log(chalk.gray('Waiting for changes...\n'));
-        } catch (error) {
-          console.error(chalk.red(`\n✖ Compilation failed: ${(error as Error).message}\n`));
-          console.log(chalk.gray('Waiting for changes...\n'));
+          const result = compileInk({ inputPath: filePath, outputPath, backend: this.options.compiler, countAllVisits: true });
+          if (!result.success) {
+            for (const diagnostic of result.diagnostics) {
+              console.error('\n' + formatDiagnostic(diagnostic));
+            }
+            throw new Error(result.error);
+          }
+          storyJson = this.loadStoryJson(outputPath);
+        } finally {
+          // inklecate can leave a partial file behind when it fails.
+          fs.rmSync(outputPath, { force: true });
         }
+        functions = this.findInkFunctions(filePath);
+      } else {
+        storyJson = this.loadStoryJson(filePath);
       }
-    }, 1000);
 
-    process.on('SIGINT', () => {
-      clearInterval(fsWait);
-      console.log(chalk.gray('\n\nStopping watch...\n'));
-      process.exit(0);
+      const report = exploreStory(storyJson, limits, opts.seed ?? 0, functions, story => this.plugins.attach(story));
+
+      if (opts.output) {
+        this.writeEndingScripts(opts.output, report);
+      }
+
+      if (opts.format === 'json') {
+        console.log(JSON.stringify(report, null, 2));
+      } else {
+        this.printExploreReport(filePath, report, limits.maxDepth, limits.maxStates);
+        if (opts.output) {
+          console.log(chalk.green(`✓ Wrote ${report.endings.length} ending path${report.endings.length === 1 ? '' : 's'} to: ${opts.output}\n`));
+        }
+      }
+
+      process.exit(report.errors.length > 0 || report.loops.length > 0 ? 1 : 0);
+    } catch (error) {
+      console.error(chalk.red(`\n✖ Error: ${(error as Error).message}`));
+      process.exit(1);
+    }
+  }
+
+  private findInkFunctions(filePath: string): string[] {
+    const functions: string[] = [];
+    for (const file of collectInkDependencies(filePath)) {
+      if (!fs.existsSync(file)) continue;
+      for (const match of fs.readFileSync(file, 'utf-8').matchAll(/^\s*={2,}\s*function\s+(\w+)/gm)) {
+        functions.push(match[1]);
+      }
+    }
+    return functions;
+  }
+
+  private writeEndingScripts(outputDir: string, report: ExploreReport): void {
+    fs.mkdirSync(outputDir, { recursive: true });
+
+    report.endings.forEach((ending, i) => {
+      const name = `ending-${i + 1}${ending.knot ? `-${ending.knot}` : ''}.choices`;
+      const lines = [
+        `# Ending: ${ending.text}`,
+        ...ending.choices.map((index, step) => `${index + 1}\n# ^ ${ending.choiceTexts[step]}`),
+      ];
+      fs.writeFileSync(path.join(outputDir, name), lines.join('\n') + '\n');
     });
   }
 
+  private printExploreReport(filePath: string, report: ExploreReport, maxDepth: number, maxStates: number): void {
+    const describePath = (choiceTexts: string[]) => choiceTexts.length > 0 ? choiceTexts.join(' → ') : '(start)';
+    const total = report.visited.length + report.unvisited.length;
+
+    console.log(chalk.cyanBright(`\n🧭 Explored: ${filePath}\n`));
+    console.log(chalk.gray(`${report.statesExplored} states explored (limits: depth ${maxDepth}, states ${maxStates})`));
+    if (report.truncated) {
+      console.log(chalk.yellow(`⚠ State limit reached; raise --max-states to explore further`));
+    }
+    if (report.depthLimited) {
+      console.log(chalk.yellow(`⚠ Some branches go deeper than --max-depth ${maxDepth}`));
+    }
+
+    console.log(chalk.bold(`\nKnots and stitches reached (${report.visited.length}/${total})`));
+    for (const name of report.visited) {
+      console.log(chalk.green(`  ${figures.tick} ${name}`));
+    }
+
+    if (report.unvisited.length > 0) {
+      console.log(chalk.bold(`\nNever reached (${report.unvisited.length})`));
+      for (const name of report.unvisited) {
+        console.log(chalk.yellow(`  ${figures.cross} ${name}`));
+      }
+    }
+
+    console.log(chalk.bold(`\nEndings (${report.endings.length})`));
+    report.endings.forEach((ending, i) => {
+      console.log(`  ${i + 1}. ${chalk.cyan(ending.knot || '(root)')} ${chalk.white(`"${ending.text}"`)}`);
+      console.log(chalk.gray(`     ${describePath(ending.choiceTexts)}`));
+    });
+
+    if (report.errors.length > 0) {
+      console.log(chalk.bold.red(`\nRuntime errors (${report.errors.length})`));
+      for (const issue of report.errors) {
+        console.log(chalk.red(`  ${figures.cross} ${issue.knot ? `[${issue.knot}] ` : ''}${issue.message}`));
+        console.log(chalk.gray(`     ${describePath(issue.choiceTexts)}`));
+      }
+    }
+
+    if (report.loops.length > 0) {
+      console.log(chalk.bold.red(`\nLoops with no choices (${report.loops.length})`));
+      for (const issue of report.loops) {
+        console.log(chalk.red(`  ${figures.cross} ${issue.knot ? `[${issue.knot}] ` : ''}${issue.message}`));
+        console.log(chalk.gray(`     ${describePath(issue.choiceTexts)}`));
+      }
+    }
+
+    console.log('');
+  }
+
   async replay(filePath: string): Promise<void> {
     console.log(chalk.cyanBright(`\n🔄 Restoring: ${filePath}\n`));
 
     try {
-      const saveContent = fs.readFileSync(filePath, 'utf-8');
-      const saveData = JSON.parse(saveContent);
+      const { save, legacyStoryJson } = readSave(filePath);
+
+      let storyJson: string;
+      if (save.storyPath && fs.existsSync(save.storyPath)) {
+        storyJson = this.loadStoryJson(save.storyPath);
+        this.storyPath = save.storyPath;
+      } else if (legacyStoryJson) {
+        // Old saves carried their own copy of the story; play that one, but
+        // there is nowhere to write new saves until it's run with its story file.
+        console.log(chalk.yellow('⚠ This is a version 1.0 save without a story path; playing its embedded copy of the story.'));
+        console.log(chalk.gray(`  Run "calligrapher <story> --save ${filePath}" to upgrade it.\n`));
+        storyJson = legacyStoryJson;
+      } else {
+        throw new Error(`Story not found: ${save.storyPath || '(no path recorded)'}`);
+      }
 
-      this.story = new Story(saveData.storyJson);
-      this.story.state.LoadJson(saveData.state);
+      this.startRunner(storyJson);
+      this.reportRestore(save, this.runner!.restore(save));
 
       console.log(chalk.green(`✓ Game restored!\n`));
 
@@ -372,35 +1216,105 @@ export class CalligrapherCLI {
   }
 
   private async saveGame(): Promise<void> {
-    if (!this.story) return;
-
-    const saveData = {
-      storyJson: this.story.ToJson(),
-      state: this.story.state.ToJson(),
-      savedAt: new Date().toISOString(),
-      version: '1.0',
-    };
+    if (!this.runner || !this.storyPath) return;
 
-    const defaultPath = 'calligrapher-save.json';
-
-    const { savePath } = await enquirer.prompt<{ savePath: string }>({
+    const answer = await this.ask<{ slot: string }>({
       type: 'input',
-      name: 'savePath',
-      message: chalk.cyan('Save file path:'),
-      initial: defaultPath,
+      name: 'slot',
+      message: chalk.cyan('Save slot name:'),
+      initial: 'quicksave',
     });
+    if (!answer) return;
+
+    const slot = slotName(answer.slot);
 
     try {
-      fs.writeFileSync(savePath, JSON.stringify(saveData, null, 2));
-      console.log(chalk.green(`\n✓ Game saved to: ${savePath}\n`));
+      const savePath = this.runner.save(slot);
+      console.log(chalk.green(`\n✓ Game saved to slot "${slot}" (${savePath})\n`));
     } catch (error) {
       console.error(chalk.red(`\n✖ Failed to save game: ${(error as Error).message}\n`));
     }
   }
 
-  private calculateMd5(filePath: string): string {
-    const crypto = require('crypto');
-    return crypto.createHash('md5').update(fs.readFileSync(filePath)).digest('hex');
+  private resumeSave(nameOrFile: string): void {
+    const { save, restored } = this.runner!.loadSave(nameOrFile);
+    this.reportRestore(save, restored);
+    console.log(chalk.green(`✓ Resumed "${save.slot}"`) + chalk.gray(` (${formatPlaytime(save.playtimeMs || 0)} played)\n`));
+  }
+
+  private reportRestore(save: SaveData, restored: RestoredSave): void {
+    if (restored.storyChanged) {
+      console.log(chalk.yellow('⚠ The story has changed since this game was saved.'));
+    }
+    if (restored.method === 'replay') {
+      if (save.choices.length === 0) {
+        console.log(chalk.yellow('⚠ The saved state no longer fits the story and no choices were recorded; starting from the beginning.'));
+      } else if (restored.replayedChoices < save.choices.length) {
+        console.log(chalk.yellow(`⚠ Saved state no longer fits; replayed ${restored.replayedChoices} of ${save.choices.length} choices.`));
+      } else {
+        console.log(chalk.gray(`Saved state no longer fits; rebuilt it by replaying ${save.choices.length} choices.`));
+      }
+    }
+  }
+
+  /**
+   * List a story's save slots. --load resumes a slot and --delete removes it;
+   * with neither, an interactive terminal gets a menu to pick one.
+   */
+  async saves(storyPath: string, opts: Partial<SavesOptions> = {}): Promise<void> {
+    if (opts.load) {
+      await this.runFile(storyPath, { saveFile: opts.load, noSave: !!opts.noSave });
+      return;
+    }
+
+    if (opts.delete) {
+      if (!deleteSave(storyPath, opts.delete)) {
+        console.error(chalk.red(`\n✖ No save named "${opts.delete}"\n`));
+        process.exit(1);
+      }
+      console.log(chalk.green(`\n✓ Deleted save "${slotName(opts.delete)}"\n`));
+      return;
+    }
+
+    const saves = listSaves(storyPath);
+    console.log(chalk.cyanBright(`\n💾 Saves for ${storyPath}\n`));
+
+    if (saves.length === 0) {
+      console.log(chalk.gray('  No saves yet.\n'));
+      return;
+    }
+
+    for (const save of saves) {
+      console.log(`  ${chalk.bold(save.slot.padEnd(12))} ${chalk.cyan(save.title)} ${chalk.gray(`· ${save.knot || 'start'} · ${formatPlaytime(save.playtimeMs || 0)} · ${new Date(save.savedAt).toLocaleString()}`)}`);
+      if (save.excerpt) {
+        console.log(chalk.gray(`  ${' '.repeat(12)} "${save.excerpt}"`));
+      }
+    }
+    console.log('');
+
+    if (!process.stdin.isTTY) return;
+
+    const { slot } = await enquirer.prompt<{ slot: string }>({
+      type: 'select',
+      name: 'slot',
+      message: chalk.cyan('Choose a save'),
+      choices: [...saves.map(save => save.slot), 'Cancel'],
+    });
+    if (slot === 'Cancel') return;
+
+    const { action } = await enquirer.prompt<{ action: string }>({
+      type: 'select',
+      name: 'action',
+      message: chalk.cyan(`"${slot}"`),
+      choices: ['Load', 'Delete', 'Cancel'],
+    });
+
+    if (action === 'Load') {
+      await this.runFile(storyPath, { saveFile: slot, noSave: !!opts.noSave });
+    } else if (action === 'Delete') {
+      deleteSave(storyPath, slot);
+      console.log(chalk.green(`\n✓ Deleted save "${slot}"\n`));
+    }
   }
 
   private printHeader(title?: string): void {
@@ -410,7 +1324,7 @@ export class CalligrapherCLI {
       borderColor: 'green',
       borderStyle: 'round',
     }));
-    console.log(chalk.gray(' Use arrow keys to navigate, Enter to select, S to save\n'));
+    console.log(chalk.gray(' Use arrow keys to navigate, Enter to select, S to save, U to undo, H for history, : for the debug console\n'));
   }
 
   private printFooter(): void {
@@ -2,12 +2,24 @@ import * as fs from 'fs';
 import * as path from 'path';
 import * as os from 'os';
 import { execSync } from 'child_process';
+import { Compiler } from 'inkjs/compiler/Compiler';
+import { CompilerOptions } from 'inkjs/compiler/CompilerOptions';
+import { PosixFileHandler } from 'inkjs/compiler/FileHandler/PosixFileHandler';
+import { Story as ParsedStory } from 'inkjs/compiler/Parser/ParsedHierarchy/Story';
+import { Story } from 'inkjs/engine/Story';
+import { Diagnostic, parseDiagnostic, parseDiagnosticOutput } from './diagnostics';
+
+export type CompilerBackend = 'inkjs' | 'inklecate';
+
+export const COMPILER_BACKENDS: CompilerBackend[] = ['inkjs', 'inklecate'];
 
 export interface CompilerResult {
   success: boolean;
   outputPath?: string;
   error?: string;
   inklecatePath?: string;
+  backend?: CompilerBackend;
+  diagnostics: Diagnostic[];
 }
 
 export interface CompileOptions {
@@ -15,11 +27,16 @@ export interface CompileOptions {
   outputPath?: string;
   verbose?: boolean;
   noThrow?: boolean;
+  backend?: CompilerBackend;
+  countAllVisits?: boolean;
 }
 
 export function findInklecate(): string | null {
   const platform = os.platform();
-  const arch = os.arch();
+
+  if (process.env.INKLECATE_PATH && fs.existsSync(process.env.INKLECATE_PATH)) {
+    return process.env.INKLECATE_PATH;
+  }
 
   const possiblePaths = [
     path.join(__dirname, '..', '..', 'bin', 'inklecate'),
@@ -31,12 +48,11 @@ export function findInklecate(): string | null {
     '/usr/bin/inklecate',
     path.join(os.homedir(), '.local', 'bin', 'inklecate'),
     path.join(os.homedir(), 'bin', 'inklecate'),
-    path.join(os.homedir(), '.nvm', 'versions', 'node', 'v22.15.0', 'lib', 'node_modules', '@6i', 'ink-tools', 'bin', 'inklecate', 'inklecate_win.exe'),
   ];
 
   for (const p of possiblePaths) {
-    if (fs.existsSync(p)) {
-      if (platform !== 'win32' && !p.endsWith('.exe')) {
+    if (fs.existsSync(p) && fs.statSync(p).isFile()) {
+      if (platform !== 'win32') {
         try {
           fs.chmodSync(p, '755');
         } catch {}
@@ -45,18 +61,6 @@ export function findInklecate(): string | null {
     }
   }
 
-  if (platform === 'linux') {
-    const linuxPaths = [
-      '/usr/bin/inklecate',
-      '/usr/local/bin/inklecate',
-    ];
-    for (const p of linuxPaths) {
-      if (fs.existsSync(p)) {
-        return p;
-      }
-    }
-  }
-
   return null;
 }
 
@@ -104,66 +108,157 @@ For Calligrapher, you can also place inklecate in:
 }
 
 export function compileInk(options: CompileOptions): CompilerResult {
-  const { inputPath, outputPath, verbose, noThrow } = options;
+  const { inputPath, outputPath, verbose, backend = 'inkjs' } = options;
 
   if (!fs.existsSync(inputPath)) {
-    return { success: false, error: `Input file not found: ${inputPath}` };
+    const error = `Input file not found: ${inputPath}`;
+    return { success: false, error, backend, diagnostics: [parseDiagnostic(error, inputPath)] };
   }
 
   const ext = path.extname(inputPath).toLowerCase();
   if (ext !== '.ink') {
-    return { success: false, error: `Expected .ink file, got: ${ext}` };
+    const error = `Expected .ink file, got: ${ext}`;
+    return { success: false, error, backend, diagnostics: [parseDiagnostic(error, inputPath)] };
+  }
+
+  const defaultOutput = inputPath.replace(/\.ink$/, '.json');
+  const finalOutput = outputPath || defaultOutput;
+
+  if (verbose) {
+    console.log(`Compiling: ${inputPath}`);
+    console.log(`Output: ${finalOutput}`);
+  }
+
+  const result = backend === 'inklecate'
+    ? compileWithInklecate(inputPath, finalOutput, options)
+    : compileWithInkjs(inputPath, finalOutput, options);
+
+  if (verbose && result.success) {
+    console.log('Compilation successful!');
+  }
+
+  return result;
+}
+
+/** The result of compiling with inkjs in memory, before anything is written. */
+export interface InkjsCompilation {
+  story: Story | null;
+  /** The parsed source; there even when compilation fails, unless parsing itself did. */
+  parsed: ParsedStory | null;
+  diagnostics: Diagnostic[];
+  /** Why compilation failed; unset on success. */
+  error?: string;
+}
+
+/**
+ * Compile an .ink file (and its INCLUDEs) with the bundled inkjs compiler.
+ * `compile` writes the resulting story out; `lint`, `graph` and `stats` read
+ * the parsed source it leaves behind.
+ */
+export function compileInkjs(inputPath: string, countAllVisits = false): InkjsCompilation {
+  const source = stripBom(fs.readFileSync(inputPath, 'utf-8'));
+  const fileHandler = new PosixFileHandler(path.dirname(path.resolve(inputPath)));
+  const compiler = new Compiler(source, new CompilerOptions(path.basename(inputPath), [], countAllVisits, null, fileHandler));
+
+  const collectDiagnostics = (): Diagnostic[] => [
+    ...compiler.errors.map(message => parseDiagnostic(message, inputPath, 'error')),
+    ...compiler.warnings.map(message => parseDiagnostic(message, inputPath, 'warning')),
+    ...compiler.authorMessages.map(message => parseDiagnostic(message, inputPath, 'todo')),
+  ];
+
+  try {
+    const story = compiler.Compile();
+    if (!story || compiler.errors.length > 0) {
+      return { story: null, parsed: compiler.parsedStory, diagnostics: collectDiagnostics(), error: compiler.errors.join('\n') };
+    }
+    return { story, parsed: compiler.parsedStory, diagnostics: collectDiagnostics() };
+  } catch (error: unknown) {
+    const diagnostics = collectDiagnostics();
+    const errorMessage = compiler.errors.length > 0
+      ? compiler.errors.join('\n')
+      : error instanceof Error ? error.message : String(error);
+    if (compiler.errors.length === 0) {
+      diagnostics.unshift(parseDiagnostic(errorMessage, inputPath));
+    }
+    return { story: null, parsed: compiler.parsedStory ?? null, diagnostics, error: errorMessage };
+  }
+}
+
+function compileWithInkjs(inputPath: string, finalOutput: string, options: CompileOptions): CompilerResult {
+  if (options.verbose) {
+    console.log('Compiler: inkjs (built-in)');
+  }
+
+  const { story, diagnostics, error } = compileInkjs(inputPath, !!options.countAllVisits);
+  if (error !== undefined || !story) {
+    return { success: false, error: `Compilation failed: ${error}`, backend: 'inkjs', diagnostics };
   }
 
+  try {
+    fs.writeFileSync(finalOutput, story.ToJson() || '', 'utf-8');
+  } catch (writeError: unknown) {
+    const message = writeError instanceof Error ? writeError.message : String(writeError);
+    return { success: false, error: `Compilation failed: ${message}`, backend: 'inkjs', diagnostics: [parseDiagnostic(message, inputPath), ...diagnostics] };
+  }
+  return { success: true, outputPath: finalOutput, backend: 'inkjs', diagnostics };
+}
+
+function compileWithInklecate(inputPath: string, finalOutput: string, options: CompileOptions): CompilerResult {
   const inklecatePath = findInklecate();
   if (!inklecatePath) {
     return {
       success: false,
       error: 'inklecate compiler not found.',
-      inklecatePath: ''
+      inklecatePath: '',
+      backend: 'inklecate',
+      diagnostics: [parseDiagnostic('inklecate compiler not found.', inputPath)],
     };
   }
 
-  const defaultOutput = inputPath.replace(/\.ink$/, '.json');
-  const finalOutput = outputPath || defaultOutput;
-
-  try {
-    let cmd: string;
-    const monoPath = '/usr/bin/mono';
-
-    if (inklecatePath?.endsWith('.exe')) {
-      cmd = `${monoPath} "${inklecatePath}" -o "${finalOutput}" "${inputPath}"`;
-    } else {
-      cmd = `"${inklecatePath}" -o "${finalOutput}" "${inputPath}"`;
-    }
+  if (options.verbose) {
+    console.log(`Compiler: ${inklecatePath}`);
+  }
 
-    if (verbose) {
-      console.log(`Compiling: ${inputPath}`);
-      console.log(`Output: ${finalOutput}`);
-      console.log(`Compiler: ${inklecatePath}`);
-    }
+  const flags = options.countAllVisits ? '-c ' : '';
 
-    execSync(cmd, { stdio: ['pipe', 'pipe', 'pipe'] });
+  try {
+    const stdout = execSync(`"${inklecatePath}" ${flags}-o "${finalOutput}" "${inputPath}"`, {
+      stdio: ['pipe', 'pipe', 'pipe'],
+      encoding: 'utf-8',
+    });
 
-    let content = fs.readFileSync(finalOutput, 'utf-8');
+    const content = fs.readFileSync(finalOutput, 'utf-8');
     if (content.charCodeAt(0) === 0xFEFF) {
-      content = content.slice(1);
-      fs.writeFileSync(finalOutput, content, 'utf-8');
+      fs.writeFileSync(finalOutput, stripBom(content), 'utf-8');
     }
 
-    if (verbose) {
-      console.log('Compilation successful!');
-    }
-
-    return { success: true, outputPath: finalOutput };
+    return {
+      success: true,
+      outputPath: finalOutput,
+      inklecatePath,
+      backend: 'inklecate',
+      diagnostics: parseDiagnosticOutput(stdout, inputPath),
+    };
   } catch (error: unknown) {
-    const errorMessage = error instanceof Error ? error.message : String(error);
-    return { success: false, error: `Compilation failed: ${errorMessage}` };
+    const { stdout = '', stderr = '' } = error as { stdout?: string; stderr?: string };
+    const diagnostics = parseDiagnosticOutput(`${stdout}\n${stderr}`, inputPath);
+    const errors = diagnostics.filter(d => d.severity === 'error').map(d => d.message);
+    const errorMessage = errors.length > 0
+      ? errors.join('\n')
+      : error instanceof Error ? error.message : String(error);
+    if (errors.length === 0) {
+      diagnostics.unshift(parseDiagnostic(errorMessage, inputPath));
+    }
+    return { success: false, error: `Compilation failed: ${errorMessage}`, inklecatePath, backend: 'inklecate', diagnostics };
   }
 }
 
-export function inkToJson(inputPath: string, outputPath?: string): string {
-  const result = compileInk({ inputPath, outputPath });
+function stripBom(content: string): string {
+  return content.charCodeAt(0) === 0xFEFF ? content.slice(1) : content;
+}
+
+export function inkToJson(inputPath: string, outputPath?: string, backend?: CompilerBackend): string {
+  const result = compileInk({ inputPath, outputPath, backend });
   if (!result.success) {
     if (result.error?.includes('inklecate compiler not found')) {
       console.error('\n' + result.error);
@@ -179,31 +274,5 @@ export function compileWithInkToJson(inputPath: string, outputPath?: string): st
     throw new Error(`Input file not found: ${inputPath}`);
   }
 
-  const defaultOutput = inputPath.replace(/\.ink$/, '.json');
-  const finalOutput = outputPath || defaultOutput;
-
-  const monoPath = '/usr/bin/mono';
-  const inklecatePath = findInklecate();
-
-  let cmd: string;
-  if (inklecatePath?.endsWith('.exe')) {
-    cmd = `${monoPath} "${inklecatePath}" -o "${finalOutput}" "${inputPath}"`;
-  } else {
-    cmd = `"${inklecatePath}" -o "${finalOutput}" "${inputPath}"`;
-  }
-
-  try {
-    execSync(cmd, { stdio: ['pipe', 'pipe', 'pipe'] });
-
-    let content = fs.readFileSync(finalOutput, 'utf-8');
-    if (content.charCodeAt(0) === 0xFEFF) {
-      content = content.slice(1);
-      fs.writeFileSync(finalOutput, content, 'utf-8');
-    }
-
-    return finalOutput;
-  } catch (error: unknown) {
-    const errorMessage = error instanceof Error ? error.message : String(error);
-    throw new Error(`Compilation failed: ${errorMessage}`);
-  }
-}
\ No newline at end of file
+  return inkToJson(inputPath, outputPath, 'inklecate');
+}
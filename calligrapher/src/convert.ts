@@ -0,0 +1,118 @@
+import { Expression, TEXT_STORY_END, TextStory, TextTemplate, TextValue } from './textStory';
+
+const PRECEDENCE: Record<string, number> = {
+  '||': 1,
+  '&&': 2,
+  '==': 3, '!=': 3,
+  '<': 4, '>': 4, '<=': 4, '>=': 4,
+  '+': 5, '-': 5,
+  '*': 6, '/': 6, '%': 6,
+};
+
+const INK_OPERATORS: Record<string, string> = { '||': 'or', '&&': 'and' };
+
+/**
+ * Characters ink reads as logic, tags, comments or diverts anywhere in a line.
+ * Comments are stripped before escapes are read, so "//" is broken up as "/\/".
+ */
+const RESERVED = /[\\{}|#[\]]|(?<=\/)[/*]|-(?=>)|<(?=[>-])/g;
+
+/** Characters that start a choice, gather, knot or logic line when they lead. */
+const RESERVED_AT_START = /^[*+\-=~]/;
+
+export function escapeInkText(text: string): string {
+  const escaped = text.replace(RESERVED, match => `\\${match}`);
+  return RESERVED_AT_START.test(escaped) ? `\\${escaped}` : escaped;
+}
+
+function inkValue(value: TextValue): string {
+  return typeof value === 'string' ? JSON.stringify(value) : String(value);
+}
+
+export function inkExpression(expression: Expression, parentPrecedence = 0): string {
+  switch (expression.kind) {
+    case 'literal':
+      return inkValue(expression.value);
+    case 'variable':
+      return expression.name;
+    case 'unary':
+      return expression.op === '!'
+        ? `not ${inkExpression(expression.operand, 7)}`
+        : `-${inkExpression(expression.operand, 7)}`;
+    case 'binary': {
+      const precedence = PRECEDENCE[expression.op];
+      // Left-associative: the right side needs parentheses at equal precedence.
+      const source = `${inkExpression(expression.left, precedence)} ${INK_OPERATORS[expression.op] ?? expression.op} ${inkExpression(expression.right, precedence + 1)}`;
+      return precedence < parentPrecedence ? `(${source})` : source;
+    }
+  }
+}
+
+function inkTemplate(template: TextTemplate): string {
+  return template.map(part => (typeof part === 'string' ? escapeInkText(part) : `{${inkExpression(part)}}`)).join('');
+}
+
+/**
+ * Knot names for the story's sections. Text stories allow names such as
+ * "cave-entrance" that ink doesn't, so anything else becomes an underscore,
+ * with a number added if that clashes with another section.
+ */
+function knotNames(story: TextStory): Map<string, string> {
+  const names = new Map<string, string>();
+  const taken = new Set<string>();
+  for (const name of Object.keys(story.sections)) {
+    let base = name.replace(/[^A-Za-z0-9_]/g, '_');
+    if (/^\d/.test(base)) base = `_${base}`;
+    let knot = base;
+    for (let n = 2; taken.has(knot) || knot === TEXT_STORY_END; n++) knot = `${base}_${n}`;
+    taken.add(knot);
+    names.set(name, knot);
+  }
+  return names;
+}
+
+/**
+ * Write a parsed text story as ink. Sections become knots and choices become
+ * sticky choices (`+`), since text stories offer every choice on each visit.
+ * A section without choices ends the story, as it does in the text format.
+ */
+export function textStoryToInk(story: TextStory, sourceName: string): string {
+  const lines: string[] = [`// Converted from ${sourceName} by calligrapher convert`, ''];
+
+  const variables = Object.entries(story.variables);
+  for (const [name, value] of variables) {
+    lines.push(`VAR ${name} = ${inkValue(value)}`);
+  }
+  if (variables.length > 0) {
+    lines.push('');
+  }
+
+  const knots = knotNames(story);
+  lines.push(`-> ${knots.get(story.start)}`);
+
+  for (const section of Object.values(story.sections)) {
+    lines.push('', `=== ${knots.get(section.name)} ===`);
+
+    for (const statement of section.statements) {
+      if (statement.type === 'assign') {
+        lines.push(`~ ${statement.name} = ${inkExpression(statement.expression)}`);
+      } else {
+        lines.push(inkTemplate(statement.template));
+      }
+    }
+
+    if (section.choices.length === 0) {
+      lines.push('-> END');
+      continue;
+    }
+
+    lines.push('');
+    for (const choice of section.choices) {
+      const conditions = choice.conditions.map(condition => `{${inkExpression(condition)}} `).join('');
+      const target = choice.target === TEXT_STORY_END ? 'END' : knots.get(choice.target);
+      lines.push(`+ ${conditions}[${inkTemplate(choice.template)}] -> ${target}`);
+    }
+  }
+
+  return lines.join('\n') + '\n';
+}
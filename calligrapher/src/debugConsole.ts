@@ -0,0 +1,144 @@
+import { Story } from 'inkjs';
+import { listKnotsAndStitches } from './explorer';
+import { StoryRunner } from './runner';
+
+export interface DebugCommandResult {
+  output: string[];
+  /** Leave the console and go back to the story. */
+  resume?: boolean;
+  /** Take back this many choices before resuming. */
+  rewind?: number;
+  /** Open the choice history before resuming. */
+  history?: boolean;
+}
+
+export const DEBUG_HELP = [
+  'vars                     List global variables',
+  'set <var> <value>        Change a global variable',
+  'visits [knot]            Show visit counts',
+  'path                     Show the current story path',
+  'goto <knot[.stitch]>     Jump to a knot or stitch',
+  'eval <function> [args]   Call an ink function',
+  'watch [var...]           Print changes to these variables inline (with -v)',
+  'unwatch [var...]         Stop watching (no names: watch everything again)',
+  'back [N]                 Undo the last N choices (default 1)',
+  'history                  Pick an earlier choice to rewind to',
+  'continue                 Back to the story (or press Enter on an empty line)',
+];
+
+/** Names of the story's global variables, sorted. */
+export function globalVariableNames(story: Story): string[] {
+  return Object.keys(story.variablesState).sort();
+}
+
+const REPLAY_WARNING = "Saves and reloads from here on keep the story's state but can't replay your choices";
+
+export function formatInkValue(value: unknown): string {
+  if (typeof value === 'string') return JSON.stringify(value);
+  if (value === null || value === undefined) return 'null';
+  return String(value);
+}
+
+/** Read "42", "1.5", "true" and quoted strings as ink values; anything else is a string. */
+export function parseInkValue(raw: string): string | number | boolean {
+  if (/^-?\d+(\.\d+)?$/.test(raw)) return Number(raw);
+  if (raw === 'true' || raw === 'false') return raw === 'true';
+  const quoted = raw.match(/^"(.*)"$|^'(.*)'$/);
+  if (quoted) return quoted[1] ?? quoted[2];
+  return raw;
+}
+
+/**
+ * Run one debug console command against a run. Errors from the story (an
+ * undeclared variable, an unknown knot) are reported as output rather than
+ * thrown, so a typo never ends the session. `set` and `goto` go through the
+ * runner, which stops replaying choices from then on, and say so the first time.
+ */
+export function runDebugCommand(runner: StoryRunner, input: string, watched: Set<string>): DebugCommandResult {
+  const { story } = runner;
+  const warning = () => (runner.replayable ? [REPLAY_WARNING] : []);
+  const [command, ...args] = input.trim().replace(/^:/, '').split(/\s+/);
+
+  try {
+    switch (command) {
+      case '':
+      case 'continue':
+      case 'c':
+      case 'exit':
+        return { output: [], resume: true };
+
+      case 'help':
+      case '?':
+        return { output: DEBUG_HELP };
+
+      case 'vars': {
+        const names = globalVariableNames(story);
+        if (names.length === 0) return { output: ['(no global variables)'] };
+        return {
+          output: names.map(name => `${watched.has(name) ? '*' : ' '} ${name} = ${formatInkValue(story.variablesState.$(name))}`),
+        };
+      }
+
+      case 'set': {
+        const [name, ...rest] = args;
+        if (!name || rest.length === 0) return { output: ['Usage: set <var> <value>'] };
+        if (!globalVariableNames(story).includes(name)) return { output: [`Unknown variable: ${name}`] };
+        const output = warning();
+        runner.setVariable(name, parseInkValue(rest.join(' ')));
+        return { output: [`${name} = ${formatInkValue(story.variablesState.$(name))}`, ...output] };
+      }
+
+      case 'visits': {
+        const names = args.length > 0 ? args : listKnotsAndStitches(story);
+        return {
+          output: names.map(name => `${String(story.state.VisitCountAtPathString(name) ?? 0).padStart(4)}  ${name}`),
+        };
+      }
+
+      case 'path':
+        return { output: [story.state.currentPathString || '(at a choice point or the end)'] };
+
+      case 'goto': {
+        if (args.length !== 1) return { output: ['Usage: goto <knot[.stitch]>'] };
+        const output = warning();
+        runner.jumpTo(args[0]);
+        return { output: [`Jumped to ${args[0]}`, ...output], resume: true };
+      }
+
+      case 'eval': {
+        const [name, ...rawArgs] = args;
+        if (!name) return { output: ['Usage: eval <function> [args...]'] };
+        if (!story.HasFunction(name)) return { output: [`Unknown function: ${name}`] };
+        const result = story.EvaluateFunction(name, rawArgs.map(parseInkValue), true) as Story.EvaluateFunctionTextOutput;
+        const output = [`→ ${formatInkValue(result.returned)}`];
+        if (result.output.trim()) {
+          output.unshift(...result.output.trim().split('\n'));
+        }
+        return { output };
+      }
+
+      case 'watch':
+        args.forEach(name => watched.add(name));
+        return { output: [watched.size > 0 ? `Watching: ${Array.from(watched).join(', ')}` : 'Watching all variables'] };
+
+      case 'unwatch':
+        if (args.length === 0) watched.clear();
+        args.forEach(name => watched.delete(name));
+        return { output: [watched.size > 0 ? `Watching: ${Array.from(watched).join(', ')}` : 'Watching all variables'] };
+
+      case 'back': {
+        const steps = args.length > 0 ? Number(args[0]) : 1;
+        if (!Number.isInteger(steps) || steps < 1) return { output: ['Usage: back [N]'] };
+        return { output: [], resume: true, rewind: steps };
+      }
+
+      case 'history':
+        return { output: [], resume: true, history: true };
+
+      default:
+        return { output: [`Unknown command: ${command} (type "help" for a list)`] };
+    }
+  } catch (error) {
+    return { output: [`Error: ${(error as Error).message}`] };
+  }
+}
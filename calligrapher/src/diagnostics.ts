@@ -0,0 +1,135 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import chalk from 'chalk';
+
+export type DiagnosticSeverity = 'error' | 'warning' | 'todo';
+
+export interface Diagnostic {
+  file: string;
+  line: number;
+  column: number;
+  severity: DiagnosticSeverity;
+  message: string;
+}
+
+const MESSAGE_PATTERN = /^(?:RUNTIME\s+)?(ERROR|WARNING|TODO):\s*(?:'([^']+)'\s+)?(?:line\s+(\d+):\s*)?(.*)$/i;
+
+const SEVERITIES: Record<string, DiagnosticSeverity> = {
+  ERROR: 'error',
+  WARNING: 'warning',
+  TODO: 'todo',
+};
+
+/**
+ * Parse a compiler message such as "ERROR: 'story.ink' line 12: Divert target not found"
+ * into a Diagnostic. Files are resolved relative to the directory of the root story.
+ */
+export function parseDiagnostic(raw: string, inputPath: string, fallback: DiagnosticSeverity = 'error'): Diagnostic {
+  const match = raw.trim().match(MESSAGE_PATTERN);
+  const rootDir = path.dirname(inputPath);
+
+  if (!match) {
+    return { file: inputPath, line: 0, column: 0, severity: fallback, message: raw.trim() };
+  }
+
+  const [, kind, file, line, message] = match;
+  const diagnostic: Diagnostic = {
+    file: file ? path.join(rootDir, file) : inputPath,
+    line: line ? parseInt(line, 10) : 0,
+    column: 0,
+    severity: SEVERITIES[kind.toUpperCase()] || fallback,
+    message: message.trim(),
+  };
+  diagnostic.column = locateColumn(readSourceLine(diagnostic.file, diagnostic.line), diagnostic.message);
+
+  return diagnostic;
+}
+
+/**
+ * Pull diagnostics out of free-form compiler output (e.g. inklecate's stdout),
+ * keeping only lines that look like compiler messages.
+ */
+export function parseDiagnosticOutput(output: string, inputPath: string): Diagnostic[] {
+  return output
+    .split(/\r?\n/)
+    .filter(line => MESSAGE_PATTERN.test(line.trim()))
+    .map(line => parseDiagnostic(line, inputPath));
+}
+
+/**
+ * Ink only reports line numbers, so the column is a best guess: the first quoted
+ * fragment or trailing identifier from the message if it appears on the line,
+ * otherwise the first non-blank character. Columns are 1-based; 0 means unknown.
+ */
+function locateColumn(sourceLine: string | null, message: string): number {
+  if (sourceLine === null) return 0;
+
+  const candidates: string[] = [];
+  const quoted = message.match(/'([^']+)'/);
+  if (quoted) {
+    candidates.push(quoted[1], quoted[1].replace(/^->\s*/, ''));
+  }
+  const trailing = message.match(/:\s*([\w.]+)\s*$/);
+  if (trailing) {
+    candidates.push(trailing[1]);
+  }
+
+  for (const candidate of candidates) {
+    const index = sourceLine.indexOf(candidate);
+    if (candidate && index >= 0) {
+      return index + 1;
+    }
+  }
+
+  const indent = sourceLine.search(/\S/);
+  return indent >= 0 ? indent + 1 : 1;
+}
+
+function readSourceLine(file: string, line: number): string | null {
+  if (line < 1) return null;
+
+  try {
+    const lines = fs.readFileSync(file, 'utf-8').split(/\r?\n/);
+    return line <= lines.length ? lines[line - 1] : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Render a diagnostic with a source excerpt and a caret under the column, e.g.
+ *
+ *   error: Divert target not found: '-> nowhere'
+ *     --> story.ink:2:1
+ *      |
+ *    2 | -> nowhere
+ *      | ^
+ */
+export function formatDiagnostic(diagnostic: Diagnostic): string {
+  const colorFor = {
+    error: chalk.red.bold,
+    warning: chalk.yellow.bold,
+    todo: chalk.blue.bold,
+  }[diagnostic.severity];
+
+  const location = diagnostic.line > 0
+    ? `${diagnostic.file}:${diagnostic.line}${diagnostic.column > 0 ? `:${diagnostic.column}` : ''}`
+    : diagnostic.file;
+
+  const output = [
+    `${colorFor(diagnostic.severity)}${chalk.bold(`: ${diagnostic.message}`)}`,
+    chalk.cyan(`  --> `) + location,
+  ];
+
+  const sourceLine = readSourceLine(diagnostic.file, diagnostic.line);
+  if (sourceLine !== null) {
+    const gutter = ' '.repeat(String(diagnostic.line).length);
+    output.push(chalk.cyan(` ${gutter} |`));
+    output.push(chalk.cyan(` ${diagnostic.line} | `) + sourceLine);
+    if (diagnostic.column > 0) {
+      output.push(chalk.cyan(` ${gutter} | `) + ' '.repeat(diagnostic.column - 1) + colorFor('^'));
+    }
+  }
+
+  return output.join('\n');
+}
@@ -0,0 +1,240 @@
+import { Story } from 'inkjs';
+
+export interface ExploreLimits {
+  maxDepth: number;
+  maxStates: number;
+  maxStepsPerTurn: number;
+}
+
+export interface ExplorePath {
+  choices: number[];
+  choiceTexts: string[];
+}
+
+export interface ExploreEnding extends ExplorePath {
+  knot: string | null;
+  text: string;
+}
+
+export interface ExploreIssue extends ExplorePath {
+  knot: string | null;
+  message: string;
+}
+
+export interface ExploreReport {
+  statesExplored: number;
+  truncated: boolean;
+  depthLimited: boolean;
+  visited: string[];
+  unvisited: string[];
+  endings: ExploreEnding[];
+  errors: ExploreIssue[];
+  loops: ExploreIssue[];
+}
+
+export const DEFAULT_EXPLORE_LIMITS: ExploreLimits = {
+  maxDepth: 50,
+  maxStates: 5000,
+  maxStepsPerTurn: 2000,
+};
+
+interface QueueEntry extends ExplorePath {
+  state: string;
+}
+
+interface NamedContainer {
+  content: unknown[];
+  namedContent: Map<string, unknown>;
+}
+
+/**
+ * Walk a story's choice tree breadth-first, restoring a state snapshot at each
+ * branch. Positions are deduplicated on call stack, pending choices and
+ * variables (ignoring visit counts), so "play again" loops are explored once.
+ * Because the walk is breadth-first, the first path found to each ending is a
+ * shortest one.
+ *
+ * Knot coverage is read from visit counts when the story was compiled with
+ * countAllVisits, and otherwise from the paths the walk passes through.
+ */
+export function exploreStory(
+  storyJson: string,
+  limits: ExploreLimits = DEFAULT_EXPLORE_LIMITS,
+  seed = 0,
+  ignoredKnots: string[] = [],
+  prepare?: (story: Story) => void,
+): ExploreReport {
+  const story = new Story(storyJson);
+  story.state.storySeed = seed;
+  story.state.previousRandom = 0;
+  prepare?.(story);
+
+  const runtimeErrors: string[] = [];
+  story.onError = message => {
+    runtimeErrors.push(message);
+  };
+
+  const targets = listKnotsAndStitches(story).filter(name => !ignoredKnots.includes(name.split('.')[0]));
+  const visited = new Set<string>();
+  const seen = new Set<string>();
+  const endingKeys = new Set<string>();
+  const issueKeys = new Set<string>();
+
+  // The same problem is usually reachable many ways; keep the first (shortest) path.
+  const addIssue = (list: ExploreIssue[], issue: ExploreIssue) => {
+    const key = `${list === report.loops ? 'loop' : 'error'}\u0000${issue.knot}\u0000${issue.message}`;
+    if (!issueKeys.has(key)) {
+      issueKeys.add(key);
+      list.push(issue);
+    }
+  };
+
+  const report: ExploreReport = {
+    statesExplored: 0,
+    truncated: false,
+    depthLimited: false,
+    visited: [],
+    unvisited: [],
+    endings: [],
+    errors: [],
+    loops: [],
+  };
+
+  const queue: QueueEntry[] = [{ state: story.state.ToJson(), choices: [], choiceTexts: [] }];
+
+  while (queue.length > 0) {
+    if (report.statesExplored >= limits.maxStates) {
+      report.truncated = true;
+      break;
+    }
+
+    const entry = queue.shift()!;
+    report.statesExplored++;
+    story.state.LoadJson(entry.state);
+    runtimeErrors.length = 0;
+
+    let steps = 0;
+    let lastText = '';
+    let lastKnot: string | null = null;
+
+    try {
+      while (story.canContinue && steps < limits.maxStepsPerTurn) {
+        const position = story.state.currentPathString;
+        if (position) {
+          markPath(position, targets, visited);
+          lastKnot = position.split('.')[0];
+        }
+        const text = (story.Continue() || '').trim();
+        if (text) {
+          lastText = text;
+        }
+        steps++;
+      }
+    } catch (error) {
+      runtimeErrors.push((error as Error).message);
+    }
+
+    for (const message of runtimeErrors) {
+      addIssue(report.errors, { ...pathOf(entry), knot: lastKnot, message });
+    }
+
+    markVisitCounts(story, targets, visited);
+
+    if (story.canContinue) {
+      addIssue(report.loops, { ...pathOf(entry), knot: lastKnot, message: `No choice reached after ${steps} lines of output` });
+      continue;
+    }
+
+    const choices = story.currentChoices;
+    if (choices.length === 0) {
+      // Running out of content is reported as an error, not an ending.
+      if (runtimeErrors.length > 0) continue;
+
+      const key = `${lastKnot}\u0000${lastText}`;
+      if (!endingKeys.has(key)) {
+        endingKeys.add(key);
+        report.endings.push({ ...pathOf(entry), knot: lastKnot, text: lastText });
+      }
+      continue;
+    }
+
+    const key = positionKey(story.state.ToJson());
+    if (seen.has(key)) continue;
+    seen.add(key);
+
+    if (entry.choices.length >= limits.maxDepth) {
+      report.depthLimited = true;
+      continue;
+    }
+
+    // A choice's target is only marked visited once its state is explored
+    // and continues into it, so states cut off by the limits don't count.
+    const snapshot = story.state.ToJson();
+    const offered = choices.map(choice => choice.text);
+
+    offered.forEach((text, index) => {
+      story.state.LoadJson(snapshot);
+      story.ChooseChoiceIndex(index);
+      queue.push({
+        state: story.state.ToJson(),
+        choices: [...entry.choices, index],
+        choiceTexts: [...entry.choiceTexts, text],
+      });
+    });
+  }
+
+  report.visited = targets.filter(name => visited.has(name));
+  report.unvisited = targets.filter(name => !visited.has(name));
+  return report;
+}
+
+function pathOf(entry: ExplorePath): ExplorePath {
+  return { choices: entry.choices, choiceTexts: entry.choiceTexts };
+}
+
+/** Knots (top-level named containers) and their stitches, as "knot" and "knot.stitch". */
+export function listKnotsAndStitches(story: Story): string[] {
+  const names: string[] = [];
+  for (const [knot, content] of story.mainContentContainer.namedContent) {
+    if (knot === 'global decl' || !isContainer(content)) continue;
+    names.push(knot);
+    for (const [stitch, child] of content.namedContent) {
+      if (isContainer(child)) {
+        names.push(`${knot}.${stitch}`);
+      }
+    }
+  }
+
+  return names;
+}
+
+function isContainer(value: unknown): value is NamedContainer {
+  return !!value && typeof value === 'object' && 'namedContent' in value && 'content' in value;
+}
+
+function markPath(pathString: string, targets: string[], visited: Set<string>): void {
+  const [knot, stitch] = pathString.split('.');
+  if (targets.includes(knot)) visited.add(knot);
+  if (stitch && targets.includes(`${knot}.${stitch}`)) visited.add(`${knot}.${stitch}`);
+}
+
+function markVisitCounts(story: Story, targets: string[], visited: Set<string>): void {
+  for (const name of targets) {
+    if (visited.has(name)) continue;
+    try {
+      if ((story.state.VisitCountAtPathString(name) ?? 0) > 0) {
+        visited.add(name);
+      }
+    } catch {
+      // Not counted in this build; path tracking covers it.
+    }
+  }
+}
+
+function positionKey(stateJson: string): string {
+  const state = JSON.parse(stateJson);
+  for (const flow of Object.values(state.flows || {}) as Array<Record<string, unknown>>) {
+    delete flow.outputStream;
+  }
+  return JSON.stringify([state.flows, state.variablesState, state.evalStack]);
+}
@@ -0,0 +1,294 @@
+// The parsed hierarchy's modules import each other in a cycle that only
+// resolves when the compiler is loaded first.
+import 'inkjs/compiler/Compiler';
+import { ParsedObject } from 'inkjs/compiler/Parser/ParsedHierarchy/Object';
+import { Story as ParsedStory } from 'inkjs/compiler/Parser/ParsedHierarchy/Story';
+import { FlowBase } from 'inkjs/compiler/Parser/ParsedHierarchy/Flow/FlowBase';
+import { Knot } from 'inkjs/compiler/Parser/ParsedHierarchy/Knot';
+import { Stitch } from 'inkjs/compiler/Parser/ParsedHierarchy/Stitch';
+import { Choice } from 'inkjs/compiler/Parser/ParsedHierarchy/Choice';
+import { ContentList } from 'inkjs/compiler/Parser/ParsedHierarchy/ContentList';
+import { Text } from 'inkjs/compiler/Parser/ParsedHierarchy/Text';
+import { Tag } from 'inkjs/compiler/Parser/ParsedHierarchy/Tag';
+import { Divert } from 'inkjs/compiler/Parser/ParsedHierarchy/Divert/Divert';
+import { DivertTarget } from 'inkjs/compiler/Parser/ParsedHierarchy/Divert/DivertTarget';
+import { Expression } from 'inkjs/compiler/Parser/ParsedHierarchy/Expression/Expression';
+
+export type GraphFormat = 'dot' | 'mermaid' | 'json';
+
+export const GRAPH_FORMATS: GraphFormat[] = ['dot', 'mermaid', 'json'];
+
+/** Where the story begins (its top-level content) and where it finishes (END and DONE). */
+export const GRAPH_START = '(start)';
+export const GRAPH_END = '(end)';
+
+export interface GraphNode {
+  /** "knot" or "knot.stitch", or one of GRAPH_START / GRAPH_END. */
+  id: string;
+  kind: 'start' | 'knot' | 'stitch' | 'end';
+  knot?: string;
+  words: number;
+  choices: number;
+}
+
+export interface GraphEdge {
+  from: string;
+  to: string;
+  kind: 'divert' | 'choice' | 'tunnel' | 'thread';
+  /** The choice's text, for choice edges. */
+  label?: string;
+}
+
+export interface StoryGraph {
+  nodes: GraphNode[];
+  edges: GraphEdge[];
+}
+
+function flowNode(flow: FlowBase | null): string | null {
+  if (!flow) return GRAPH_START;
+  if (flow.isFunction) return null;
+  if (flow instanceof Stitch) {
+    const knot = enclosing(flow.parent, Knot);
+    return knot ? `${knot.name}.${flow.name}` : flow.name;
+  }
+  return flow instanceof Knot ? flow.name : GRAPH_START;
+}
+
+function enclosing<T extends ParsedObject>(object: ParsedObject | null, type: abstract new (...args: never[]) => T): T | null {
+  for (let current = object; current; current = current.parent) {
+    if (current instanceof type) return current;
+  }
+  return null;
+}
+
+/** The knot or stitch an object belongs to, or null inside a function. */
+function ownerNode(object: ParsedObject): string | null {
+  const flow = enclosing(object.parent, FlowBase);
+  if (flow && flow.isFunction) return null;
+  const stitch = enclosing(object.parent, Stitch);
+  return flowNode(stitch ?? enclosing(object.parent, Knot));
+}
+
+/**
+ * Text as the player reads it: Text objects in document order, leaving out
+ * tags (ink 1.1 stores a tag as the text between start and end markers) and
+ * string literals in logic.
+ */
+function readableText(object: ParsedObject, visit: (text: Text) => void, state = { inTag: false }): void {
+  for (const child of object.content) {
+    if (child instanceof Tag) {
+      state.inTag = child.isStart;
+    } else if (child instanceof Text) {
+      if (!state.inTag) visit(child);
+    } else if (!(child instanceof Expression)) {
+      readableText(child, visit, state);
+    }
+  }
+}
+
+export function countWords(text: string): number {
+  return text.split(/\s+/).filter(word => /[\p{L}\p{N}]/u.test(word)).length;
+}
+
+/** What a choice shows in the menu: its start and bracketed text. */
+export function choiceText(choice: Choice): string {
+  if (choice.isInvisibleDefault) return '(fallback)';
+
+  const parts: string[] = [];
+  const state = { inTag: false };
+  for (const list of [choice.startContent, choice.choiceOnlyContent]) {
+    if (list instanceof ContentList) {
+      readableText(list, text => parts.push(text.text), state);
+    }
+  }
+  return parts.join('').replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * Knots and stitches as nodes, and diverts, tunnels and threads between them
+ * as edges. A divert inside a choice becomes a choice edge labelled with the
+ * choice's text. Functions and calls to them are left out: they return to
+ * where they were called from, so they aren't part of the story's flow.
+ * With `collapseStitches`, stitches fold into their knots.
+ */
+export function buildStoryGraph(parsed: ParsedStory, collapseStitches = false): StoryGraph {
+  const nodes = new Map<string, GraphNode>();
+  const addNode = (node: GraphNode) => nodes.set(node.id, node);
+
+  addNode({ id: GRAPH_START, kind: 'start', words: 0, choices: 0 });
+  for (const knot of parsed.FindAll(Knot)(knot => !knot.isFunction)) {
+    addNode({ id: knot.name!, kind: 'knot', words: 0, choices: 0 });
+    for (const stitch of knot.FindAll(Stitch)()) {
+      addNode({ id: `${knot.name}.${stitch.name}`, kind: 'stitch', knot: knot.name!, words: 0, choices: 0 });
+    }
+  }
+
+  readableText(parsed, text => {
+    const node = nodes.get(ownerNode(text) ?? '');
+    if (node) node.words += countWords(text.text);
+  });
+  for (const choice of parsed.FindAll(Choice)()) {
+    const node = nodes.get(ownerNode(choice) ?? '');
+    if (node) node.choices += 1;
+  }
+
+  const edges: GraphEdge[] = [];
+  // Diverts the compiler adds itself (the root's closing -> DONE) have no source position.
+  const written = (divert: Divert) => !!divert.debugMetadata && !divert.isFunctionCall && !(divert.parent instanceof DivertTarget);
+  for (const divert of parsed.FindAll(Divert)(written)) {
+    const from = ownerNode(divert);
+    const to = divert.isEnd || divert.isDone
+      ? GRAPH_END
+      : flowNode(enclosing(divert.targetContent, Stitch) ?? enclosing(divert.targetContent, Knot));
+    if (!from || !to || (!divert.targetContent && to !== GRAPH_END)) continue;
+
+    const choice = enclosing(divert.parent, Choice);
+    edges.push({
+      from,
+      to,
+      kind: divert.isTunnel ? 'tunnel' : divert.isThread ? 'thread' : choice ? 'choice' : 'divert',
+      ...(choice ? { label: choiceText(choice) } : {}),
+    });
+  }
+
+  // A knot that starts with a stitch steps straight into it.
+  for (const knot of parsed.FindAll(Knot)(knot => !knot.isFunction && !!knot._startingSubFlowDivert)) {
+    edges.push({ from: knot.name!, to: flowNode(knot._firstChildFlow)!, kind: 'divert' });
+  }
+
+  if (edges.some(edge => edge.to === GRAPH_END)) {
+    addNode({ id: GRAPH_END, kind: 'end', words: 0, choices: 0 });
+  }
+
+  const graph = { nodes: Array.from(nodes.values()), edges: dedupeEdges(edges) };
+  return collapseStitches ? collapse(graph) : graph;
+}
+
+function dedupeEdges(edges: GraphEdge[]): GraphEdge[] {
+  const seen = new Set<string>();
+  return edges.filter(edge => {
+    const key = JSON.stringify([edge.from, edge.to, edge.kind, edge.label]);
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+}
+
+function collapse(graph: StoryGraph): StoryGraph {
+  const knotOf = (id: string) => graph.nodes.find(node => node.id === id)?.knot ?? id;
+  const nodes = new Map<string, GraphNode>();
+
+  for (const node of graph.nodes) {
+    const id = knotOf(node.id);
+    const existing = nodes.get(id);
+    if (existing) {
+      existing.words += node.words;
+      existing.choices += node.choices;
+    } else {
+      nodes.set(id, { ...node, id, kind: node.kind === 'stitch' ? 'knot' : node.kind, knot: undefined });
+    }
+  }
+
+  // Moving between a knot's own stitches is no longer an edge once they're one node.
+  const edges = graph.edges
+    .filter(edge => edge.from === edge.to || knotOf(edge.from) !== knotOf(edge.to))
+    .map(edge => ({ ...edge, from: knotOf(edge.from), to: knotOf(edge.to) }));
+
+  return { nodes: Array.from(nodes.values()), edges: dedupeEdges(edges) };
+}
+
+function dotString(value: string): string {
+  return `"${value.replace(/\\/g, '\\\\').replace(/"/g, '\\"')}"`;
+}
+
+const DOT_EDGE_STYLES: Record<GraphEdge['kind'], string> = {
+  divert: '',
+  choice: '',
+  tunnel: ', style=dashed',
+  thread: ', style=dotted',
+};
+
+/** Graphviz source; stitches are drawn inside a cluster for their knot. */
+export function toDot(graph: StoryGraph): string {
+  const lines = ['digraph story {', '  rankdir=LR;', '  node [shape=box, style=rounded];'];
+  const declare = (node: GraphNode, indent: string) => {
+    const label = node.kind === 'stitch' ? node.id.slice(node.knot!.length + 1) : node.id;
+    const shape = node.kind === 'start' || node.kind === 'end' ? ', shape=ellipse, style=filled' : '';
+    lines.push(`${indent}${dotString(node.id)} [label=${dotString(label)}${shape}];`);
+  };
+
+  for (const node of graph.nodes) {
+    if (node.kind === 'stitch') continue;
+    const stitches = graph.nodes.filter(stitch => stitch.knot === node.id);
+    if (stitches.length === 0) {
+      declare(node, '  ');
+      continue;
+    }
+    lines.push(`  subgraph ${dotString(`cluster_${node.id}`)} {`, `    label=${dotString(node.id)};`);
+    declare(node, '    ');
+    stitches.forEach(stitch => declare(stitch, '    '));
+    lines.push('  }');
+  }
+
+  for (const edge of graph.edges) {
+    const label = edge.label !== undefined ? `label=${dotString(edge.label)}` : '';
+    const attributes = `${label}${DOT_EDGE_STYLES[edge.kind]}`.replace(/^, /, '');
+    lines.push(`  ${dotString(edge.from)} -> ${dotString(edge.to)}${attributes ? ` [${attributes}]` : ''};`);
+  }
+
+  lines.push('}');
+  return lines.join('\n') + '\n';
+}
+
+function mermaidString(value: string): string {
+  return `"${value.replace(/"/g, '#quot;')}"`;
+}
+
+const MERMAID_ARROWS: Record<GraphEdge['kind'], string> = {
+  divert: '-->',
+  choice: '-->',
+  tunnel: '-.->',
+  thread: '-.->',
+};
+
+/** A Mermaid flowchart; node ids are generated since knot names may clash with Mermaid keywords. */
+export function toMermaid(graph: StoryGraph): string {
+  const ids = new Map(graph.nodes.map((node, index) => [node.id, `n${index}`]));
+  const lines = ['flowchart LR'];
+  const declare = (node: GraphNode, indent: string) => {
+    const label = mermaidString(node.kind === 'stitch' ? node.id.slice(node.knot!.length + 1) : node.id);
+    const shape = node.kind === 'start' || node.kind === 'end' ? `([${label}])` : `[${label}]`;
+    lines.push(`${indent}${ids.get(node.id)}${shape}`);
+  };
+
+  for (const node of graph.nodes) {
+    if (node.kind === 'stitch') continue;
+    const stitches = graph.nodes.filter(stitch => stitch.knot === node.id);
+    if (stitches.length === 0) {
+      declare(node, '  ');
+      continue;
+    }
+    lines.push(`  subgraph ${ids.get(node.id)}_group[${mermaidString(node.id)}]`);
+    declare(node, '    ');
+    stitches.forEach(stitch => declare(stitch, '    '));
+    lines.push('  end');
+  }
+
+  for (const edge of graph.edges) {
+    const label = edge.label ? `|${mermaidString(edge.label)}|` : '';
+    lines.push(`  ${ids.get(edge.from)} ${MERMAID_ARROWS[edge.kind]}${label} ${ids.get(edge.to)}`);
+  }
+
+  return lines.join('\n') + '\n';
+}
+
+export function renderGraph(graph: StoryGraph, format: GraphFormat): string {
+  switch (format) {
+    case 'dot':
+      return toDot(graph);
+    case 'mermaid':
+      return toMermaid(graph);
+    case 'json':
+      return JSON.stringify(graph, null, 2) + '\n';
+  }
+}
@@ -0,0 +1,67 @@
+export const DEFAULT_UNDO_LIMIT = 100;
+
+export interface ShownLine {
+  text: string;
+  tags: string[];
+}
+
+/** Everything needed to put a run back at a choice point and show it again. */
+export interface ChoiceSnapshot {
+  /** Story state just before the choice was taken. */
+  state: string;
+  /** Text shown since the previous choice, replayed after rewinding. */
+  lines: ShownLine[];
+  choices: string[];
+  chosen: number;
+  /** How many choices had been made before this one. */
+  turn: number;
+  knot: string | null;
+  lastText: string;
+  transcriptLength: number;
+}
+
+/**
+ * A bounded stack of snapshots, one per choice. When full, the oldest
+ * snapshot is dropped, so long sessions keep a fixed amount of history.
+ * A limit of 0 disables undo.
+ */
+export class UndoHistory {
+  private snapshots: ChoiceSnapshot[] = [];
+
+  constructor(readonly limit: number = DEFAULT_UNDO_LIMIT) {}
+
+  get size(): number {
+    return this.snapshots.length;
+  }
+
+  get entries(): readonly ChoiceSnapshot[] {
+    return this.snapshots;
+  }
+
+  record(snapshot: ChoiceSnapshot): void {
+    if (this.limit <= 0) return;
+    this.snapshots.push(snapshot);
+    if (this.snapshots.length > this.limit) {
+      this.snapshots.shift();
+    }
+  }
+
+  /**
+   * Take back the last `steps` choices. Returns the snapshot to restore, or
+   * null when fewer than `steps` choices are recorded.
+   */
+  back(steps = 1): ChoiceSnapshot | null {
+    if (steps < 1 || steps > this.snapshots.length) return null;
+    const [target] = this.snapshots.splice(this.snapshots.length - steps);
+    return target;
+  }
+
+  clear(): void {
+    this.snapshots = [];
+  }
+}
+
+export function describeSnapshot(snapshot: ChoiceSnapshot): string {
+  const where = snapshot.knot ? `[${snapshot.knot}] ` : '';
+  return `${where}${snapshot.choices[snapshot.chosen]}`;
+}
@@ -0,0 +1,79 @@
+import { Story } from 'inkjs';
+import { Choice } from 'inkjs/engine/Choice';
+
+export type ReloadMethod = 'state' | 'replay';
+
+export interface ReloadResult {
+  story: Story;
+  method: ReloadMethod;
+  replayedChoices: number;
+}
+
+/**
+ * Load a freshly compiled story and bring it back to where the player was.
+ * The saved runtime state is tried first; if it no longer fits the new
+ * story (removed knots, shifted choice paths) the recorded choice indices
+ * are replayed from the start instead, stopping at the first one that no
+ * longer exists. Pass the run's seed so random branches replay identically,
+ * and `prepare` to bind external functions before anything runs.
+ */
+export function reloadStory(
+  storyJson: string,
+  previousState: string | null,
+  choiceHistory: number[],
+  seed?: number,
+  prepare?: (story: Story) => void,
+): ReloadResult {
+  if (previousState) {
+    const story = new Story(storyJson);
+    prepare?.(story);
+    if (tryRestoreState(story, previousState)) {
+      return { story, method: 'state', replayedChoices: choiceHistory.length };
+    }
+  }
+
+  const story = new Story(storyJson);
+  if (seed !== undefined) {
+    story.state.storySeed = seed;
+  }
+  prepare?.(story);
+  return { story, method: 'replay', replayedChoices: replayChoices(story, choiceHistory) };
+}
+
+export function replayChoices(story: Story, choiceHistory: number[]): number {
+  let replayed = 0;
+
+  for (const index of choiceHistory) {
+    while (story.canContinue) {
+      story.Continue();
+    }
+    if (index < 0 || index >= story.currentChoices.length) {
+      break;
+    }
+    story.ChooseChoiceIndex(index);
+    replayed++;
+  }
+
+  return replayed;
+}
+
+function tryRestoreState(story: Story, stateJson: string): boolean {
+  try {
+    story.state.LoadJson(stateJson);
+  } catch {
+    return false;
+  }
+
+  // LoadJson rejects a current position that no longer exists, but pending
+  // choices are restored as-is, so check each still points at real content.
+  return story.currentChoices.every(choice => choice.targetPath !== null && !resolvesApproximately(story, choice.targetPath));
+}
+
+function resolvesApproximately(story: Story, path: NonNullable<Choice['targetPath']>): boolean {
+  try {
+    const result = story.ContentAtPath(path);
+    return result.approximate || result.obj === null;
+  } catch {
+    return true;
+  }
+}
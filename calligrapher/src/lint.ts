@@ -0,0 +1,340 @@
+import * as fs from 'fs';
+import * as path from 'path';
+// The parsed hierarchy's modules import each other in a cycle that only
+// resolves when the compiler is loaded first.
+import 'inkjs/compiler/Compiler';
+import { ParsedObject } from 'inkjs/compiler/Parser/ParsedHierarchy/Object';
+import { Story as ParsedStory } from 'inkjs/compiler/Parser/ParsedHierarchy/Story';
+import { Knot } from 'inkjs/compiler/Parser/ParsedHierarchy/Knot';
+import { Choice } from 'inkjs/compiler/Parser/ParsedHierarchy/Choice';
+import { Divert } from 'inkjs/compiler/Parser/ParsedHierarchy/Divert/Divert';
+import { DivertTarget } from 'inkjs/compiler/Parser/ParsedHierarchy/Divert/DivertTarget';
+import { TunnelOnwards } from 'inkjs/compiler/Parser/ParsedHierarchy/TunnelOnwards';
+import { VariableReference } from 'inkjs/compiler/Parser/ParsedHierarchy/Variable/VariableReference';
+import { ConstantDeclaration } from 'inkjs/compiler/Parser/ParsedHierarchy/Declaration/ConstantDeclaration';
+import { DebugMetadata } from 'inkjs/engine/DebugMetadata';
+import YAML from 'yaml';
+import { compileInkjs } from './compiler';
+import { Diagnostic } from './diagnostics';
+import { parseTag } from './theme';
+import { collectInkDependencies } from './watcher';
+
+export type LintRule =
+  | 'unreachable-knot'
+  | 'undefined-target'
+  | 'unused-variable'
+  | 'no-exit'
+  | 'empty-choice'
+  | 'unknown-tag'
+  | 'todo'
+  | 'compile';
+
+export interface LintFinding extends Diagnostic {
+  rule: LintRule;
+}
+
+/** Compiler messages that belong to a more specific rule than "compile". */
+const COMPILER_RULES: Array<[RegExp, LintRule]> = [
+  [/^Divert target not found/, 'undefined-target'],
+  [/^Blank choice/, 'empty-choice'],
+];
+
+/**
+ * lint's settings are data only (JSON or YAML), never calligrapher.config.js,
+ * so linting a story from somewhere else runs none of its code.
+ */
+export const LINT_CONFIG_FILES = ['calligrapher.lint.json', 'calligrapher.lint.yaml', 'calligrapher.lint.yml'];
+
+export interface LintConfig {
+  /** Tag names `calligrapher lint` accepts; any other tag is reported. */
+  allowedTags?: string[];
+}
+
+const LOOSE_END = /^Apparent loose end/;
+const TODO_COMMENT = /\b(TODO|FIXME)\b/;
+
+/**
+ * The nearest lint settings file: next to the story, else in the working
+ * directory. Null when there isn't one.
+ */
+export function loadLintConfig(storyPath: string): { path: string; config: LintConfig } | null {
+  const dirs = [path.dirname(path.resolve(storyPath)), process.cwd()];
+  const configPath = dirs
+    .flatMap(dir => LINT_CONFIG_FILES.map(name => path.join(dir, name)))
+    .find(file => fs.existsSync(file));
+  if (!configPath) return null;
+
+  const source = fs.readFileSync(configPath, 'utf-8');
+  let data: unknown;
+  try {
+    data = configPath.endsWith('.json') ? JSON.parse(source) : YAML.parse(source);
+  } catch (error) {
+    throw new Error(`${configPath}: ${(error as Error).message}`);
+  }
+
+  const allowedTags = (data as LintConfig | null)?.allowedTags;
+  const tagsValid = allowedTags === undefined || (Array.isArray(allowedTags) && allowedTags.every(tag => typeof tag === 'string'));
+  if (!data || typeof data !== 'object' || !tagsValid) {
+    throw new Error(`${configPath}: expected an object whose "allowedTags" is a list of tag names`);
+  }
+  return { path: configPath, config: data as LintConfig };
+}
+
+/**
+ * Lint an ink story and everything it INCLUDEs. The compiler's own messages
+ * are kept (undefined targets and blank choices come from there); the rest is
+ * read from the parsed story the compiler builds, which exists even when
+ * compilation fails, plus a scan of the source for tags and comments, which
+ * the parser doesn't keep. Tags are only checked when `allowedTags` is given.
+ */
+export function lintInk(inputPath: string, allowedTags?: string[]): LintFinding[] {
+  if (!fs.existsSync(inputPath)) {
+    throw new Error(`Input file not found: ${inputPath}`);
+  }
+  if (path.extname(inputPath).toLowerCase() !== '.ink') {
+    throw new Error(`lint needs .ink source, got: ${path.extname(inputPath)}`);
+  }
+
+  // Failures are in the diagnostics; the parsed story is still there to lint.
+  const { parsed, diagnostics } = compileInkjs(inputPath);
+
+  const findings: LintFinding[] = [];
+  const deadEnds = parsed ? parsed.FindAll(Knot)().filter(knot => !knot.isFunction && !hasExit(knot)) : [];
+
+  if (parsed) {
+    // Ink starts at the top of the file, not at the first knot.
+    const opens = parsed.FindAll(Divert)().some(divert => !enclosingKnot(divert) && enclosingKnot(divert.targetContent));
+    const firstKnot = parsed.FindAll(Knot)()[0];
+
+    for (const knot of unreachableKnots(parsed)) {
+      findings.push({
+        ...locate(knot.identifier?.debugMetadata ?? knot.debugMetadata, inputPath),
+        severity: 'warning',
+        rule: 'unreachable-knot',
+        message: knot.isFunction
+          ? `Function '${knot.name}' is never called`
+          : !opens && knot === firstKnot
+            ? `Knot '${knot.name}' is unreachable: the story never diverts into it (add '-> ${knot.name}' at the top)`
+            : `Knot '${knot.name}' is unreachable: no path from the start of the story leads to it`,
+      });
+    }
+
+    for (const knot of deadEnds) {
+      findings.push({
+        ...locate(knot.identifier?.debugMetadata ?? knot.debugMetadata, inputPath),
+        severity: 'warning',
+        rule: 'no-exit',
+        message: `Knot '${knot.name}' has no exits: add a divert, a choice or -> END`,
+      });
+    }
+
+    for (const { name, metadata } of unusedVariables(parsed)) {
+      findings.push({
+        ...locate(metadata, inputPath),
+        severity: 'warning',
+        rule: 'unused-variable',
+        message: `Variable '${name}' is declared but never read`,
+      });
+    }
+  }
+
+  for (const diagnostic of diagnostics) {
+    // A knot with no exits always runs out somewhere; one finding is enough.
+    if (LOOSE_END.test(diagnostic.message) && deadEnds.some(knot => spans(knot, diagnostic, inputPath))) {
+      continue;
+    }
+    const rule = diagnostic.severity === 'todo'
+      ? 'todo'
+      : COMPILER_RULES.find(([pattern]) => pattern.test(diagnostic.message))?.[1] ?? 'compile';
+    findings.push({ ...diagnostic, rule });
+  }
+
+  const rootDir = path.dirname(path.resolve(inputPath));
+  for (const file of collectInkDependencies(inputPath)) {
+    if (fs.existsSync(file)) {
+      // Report included files the way the compiler does: relative to the root story.
+      findings.push(...scanSource(path.join(path.dirname(inputPath), path.relative(rootDir, file)), allowedTags));
+    }
+  }
+
+  return findings.sort((a, b) => a.file.localeCompare(b.file) || a.line - b.line || a.column - b.column);
+}
+
+function enclosingKnot(object: ParsedObject | null): Knot | null {
+  for (let current = object; current; current = current.parent) {
+    if (current instanceof Knot) return current;
+  }
+  return null;
+}
+
+/**
+ * Knots no path leads to. Reachability starts from the story's top-level
+ * content and follows diverts, tunnels, threads, function calls and divert
+ * target values (`-> knot` stored in a variable) out of every knot reached.
+ */
+function unreachableKnots(parsed: ParsedStory): Knot[] {
+  const edges = new Map<Knot | null, Set<Knot>>();
+  for (const divert of parsed.FindAll(Divert)()) {
+    const target = enclosingKnot(divert.targetContent);
+    if (!target) continue;
+    const from = enclosingKnot(divert);
+    if (!edges.has(from)) edges.set(from, new Set());
+    edges.get(from)!.add(target);
+  }
+
+  const reached = new Set<Knot | null>([null]);
+  const pending: Array<Knot | null> = [null];
+  while (pending.length > 0) {
+    for (const next of edges.get(pending.pop()!) ?? []) {
+      if (!reached.has(next)) {
+        reached.add(next);
+        pending.push(next);
+      }
+    }
+  }
+
+  return parsed.FindAll(Knot)().filter(knot => !reached.has(knot));
+}
+
+/**
+ * Whether control can leave a knot other than by running out of content.
+ * Function calls and threads come back, and a divert target value
+ * (`TURNS_SINCE(-> knot)`) goes nowhere, so none of those count.
+ */
+function hasExit(knot: Knot): boolean {
+  const leaves = (divert: Divert) =>
+    !divert.isFunctionCall && !divert.isThread && !divert.isEmpty && !(divert.parent instanceof DivertTarget);
+  return knot.FindAll(Divert)(leaves).length > 0
+    || knot.FindAll(Choice)().length > 0
+    || knot.FindAll(TunnelOnwards)().length > 0;
+}
+
+function locate(metadata: DebugMetadata | null | undefined, inputPath: string): Pick<Diagnostic, 'file' | 'line' | 'column'> {
+  return {
+    file: metadata?.fileName ? path.join(path.dirname(inputPath), metadata.fileName) : inputPath,
+    line: metadata?.startLineNumber ?? 0,
+    column: metadata?.startCharacterNumber ?? 0,
+  };
+}
+
+function spans(knot: Knot, diagnostic: Diagnostic, inputPath: string): boolean {
+  const metadata = knot.debugMetadata;
+  return !!metadata
+    && locate(metadata, inputPath).file === diagnostic.file
+    && diagnostic.line >= metadata.startLineNumber
+    && diagnostic.line <= metadata.endLineNumber;
+}
+
+/**
+ * Global declarations never read anywhere. Assigning to a variable doesn't
+ * count as reading it; neither does `~ x++`. Diverting to a variable that
+ * holds a divert target does.
+ */
+function unusedVariables(parsed: ParsedStory): Array<{ name: string; metadata: DebugMetadata | null }> {
+  const read = new Set<string>();
+  for (const reference of parsed.FindAll(VariableReference)()) {
+    read.add(reference.name);
+    if (reference.path.length > 0) read.add(reference.path[0]);
+  }
+  for (const divert of parsed.FindAll(Divert)()) {
+    if (!divert.targetContent && divert.target?.firstComponent) {
+      read.add(divert.target.firstComponent);
+    }
+  }
+
+  const declared = [
+    ...Array.from(parsed.variableDeclarations.values(), declaration => ({
+      name: declaration.variableName,
+      metadata: declaration.variableIdentifier.debugMetadata ?? declaration.debugMetadata,
+    })),
+    ...parsed.FindAll(ConstantDeclaration)().map(declaration => ({
+      name: declaration.constantName ?? '',
+      metadata: declaration.constantIdentifier.debugMetadata ?? declaration.debugMetadata,
+    })),
+  ];
+
+  return declared.filter(({ name }) => name && !read.has(name));
+}
+
+interface SourceLine {
+  code: string;
+  comments: Array<{ text: string; column: number }>;
+}
+
+/** Split each line into code and comments, following block comments across lines. */
+function splitComments(source: string): SourceLine[] {
+  let inBlock = false;
+
+  return source.split(/\r?\n/).map(line => {
+    const result: SourceLine = { code: '', comments: [] };
+    let comment: { text: string; column: number } | null = inBlock ? { text: '', column: 1 } : null;
+
+    for (let i = 0; i < line.length; i++) {
+      if (inBlock) {
+        if (line.startsWith('*/', i)) {
+          inBlock = false;
+          result.comments.push(comment!);
+          comment = null;
+          i++;
+        } else {
+          comment!.text += line[i];
+        }
+      } else if (line[i] === '\\') {
+        result.code += line.slice(i, i + 2);
+        i++;
+      } else if (line.startsWith('//', i)) {
+        result.comments.push({ text: line.slice(i + 2), column: i + 1 });
+        break;
+      } else if (line.startsWith('/*', i)) {
+        inBlock = true;
+        comment = { text: '', column: i + 1 };
+        i++;
+      } else {
+        result.code += line[i];
+      }
+    }
+
+    if (inBlock && comment) {
+      result.comments.push(comment);
+    }
+    return result;
+  });
+}
+
+/** Tags and TODO comments, which only the source still has. */
+function scanSource(file: string, allowedTags?: string[]): LintFinding[] {
+  const findings: LintFinding[] = [];
+  const allowed = allowedTags ? new Set(allowedTags) : null;
+
+  splitComments(fs.readFileSync(file, 'utf-8').replace(/^﻿/, '')).forEach(({ code, comments }, index) => {
+    const line = index + 1;
+
+    for (const comment of comments) {
+      if (TODO_COMMENT.test(comment.text)) {
+        findings.push({ file, line, column: comment.column, severity: 'todo', rule: 'todo', message: comment.text.trim() });
+      }
+    }
+
+    if (!allowed || /^\s*(~|VAR\b|CONST\b|LIST\b|INCLUDE\b|EXTERNAL\b)/.test(code)) return;
+
+    // A tag runs to the next tag, the end of a choice's brackets or a divert.
+    for (const match of code.matchAll(/(?<!\\)#([^#\]]*?)(?=(?<!\\)#|\]|->|$)/g)) {
+      const { name } = parseTag(match[1]);
+      if (!name || name.includes('{') || allowed.has(name)) continue;
+
+      const sameName = allowedTags!.find(candidate => candidate.toLowerCase() === name.toLowerCase());
+      findings.push({
+        file,
+        line,
+        column: match.index! + 1,
+        severity: 'warning',
+        rule: 'unknown-tag',
+        message: sameName
+          ? `Tag '#${name}' should be written '#${sameName}'`
+          : `Tag '#${name}' is not in the allowed tags (${allowedTags!.join(', ')})`,
+      });
+    }
+  });
+
+  return findings;
+}
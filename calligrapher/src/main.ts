@@ -0,0 +1,125 @@
+#!/usr/bin/env node
+
+import chalk from 'chalk';
+import {
+  CommandName,
+  CompileOptions,
+  ConvertOptions,
+  ExploreOptions,
+  ExportOptions,
+  GraphOptions,
+  LintOptions,
+  ParsedArgs,
+  RunOptions,
+  SavesOptions,
+  ServeOptions,
+  StatsOptions,
+  UsageError,
+  commandAccepts,
+  formatCommandHelp,
+  formatGeneralHelp,
+  parseArgs,
+} from './args';
+import { CalligrapherCLI } from './cli';
+import { DEFAULT_TYPEWRITER_SPEED } from './pacing';
+import { loadPlugins } from './plugins';
+import { disableColor, loadTheme } from './theme';
+
+type CommandHandler = (cli: CalligrapherCLI, args: ParsedArgs & { file: string }) => Promise<void>;
+
+/** What each command does; args.ts describes the options each one takes. */
+const COMMAND_HANDLERS: Record<CommandName, CommandHandler> = {
+  run: (cli, { file, options }) => cli.runFile(file, options as RunOptions),
+  play: (cli, { file, options }) => cli.play(file, options as RunOptions),
+  compile: (cli, { file, options }) => cli.compile(file, options as CompileOptions),
+  convert: (cli, { file, options }) => cli.convert(file, options as ConvertOptions),
+  lint: (cli, { file, options }) => cli.lint(file, options as LintOptions),
+  graph: (cli, { file, options }) => cli.graph(file, options as GraphOptions),
+  stats: (cli, { file, options }) => cli.stats(file, options as StatsOptions),
+  watch: (cli, { file, options }) => cli.watch(file, options as CompileOptions),
+  replay: (cli, { file }) => cli.replay(file),
+  test: (cli, { files }) => cli.test(files),
+  explore: (cli, { file, options }) => cli.explore(file, options as ExploreOptions),
+  saves: (cli, { file, options }) => cli.saves(file, options as SavesOptions),
+  serve: (cli, { file, options }) => cli.serve(file, options as ServeOptions),
+  export: (cli, { file, options }) => cli.export(file, options as ExportOptions),
+};
+
+const main = async () => {
+  const args = parseArgs();
+  const opts = args.options;
+
+  if (args.version) {
+    console.log('Calligrapher v1.0.0');
+    console.log('Ink Interactive Fiction Runner');
+    console.log('https://github.com/inkle/ink');
+    process.exit(0);
+  }
+
+  if (args.help) {
+    printHelp(args.command);
+    process.exit(0);
+  }
+
+  if (!args.command || !args.file) {
+    printHelp(null);
+    process.exit(1);
+  }
+
+  if (!opts.color) {
+    disableColor();
+  }
+
+  const cli = new CalligrapherCLI({
+    verbose: opts.verbose || 0,
+    silent: opts.silent,
+    compiler: opts.compiler,
+    seed: 'seed' in opts ? opts.seed : undefined,
+    undoLimit: 'undoLimit' in opts ? opts.undoLimit : undefined,
+    theme: 'theme' in opts && opts.theme ? loadTheme(opts.theme) : undefined,
+    typewriterSpeed: 'typewriter' in opts && opts.typewriter ? opts.speed || DEFAULT_TYPEWRITER_SPEED : undefined,
+    step: 'step' in opts && opts.step,
+    // Only commands that play a story take --plugin, and only they load calligrapher.config.js or run plugin code.
+    plugins: commandAccepts(args.command, 'plugins') ? loadPlugins(opts.plugins, args.file) : [],
+  });
+
+  await COMMAND_HANDLERS[args.command](cli, { ...args, file: args.file });
+};
+
+function printHelp(command: CommandName | null) {
+  if (command) {
+    console.log(formatCommandHelp(command));
+    return;
+  }
+
+  console.log(`
+╔══════════════════════════════════════════════════════════════════════╗
+║                    Calligrapher - Ink Runner                         ║
+║                 Interactive Fiction CLI Tool                        ║
+╚══════════════════════════════════════════════════════════════════════╝
+`);
+  console.log(formatGeneralHelp());
+  console.log(`Supported formats:
+  *.ink   - Ink source files (compiled in-process with inkjs)
+  *.json  - Compiled Ink stories
+  *.txt   - Simple text adventures
+
+For .ink files, Calligrapher compiles with the inkjs compiler bundled in
+the inkjs package. Pass --compiler inklecate to use an installed inklecate
+binary instead (download from: https://github.com/inkle/ink/releases).
+
+For more information, visit: https://github.com/inkle/ink
+`);
+}
+
+main().catch(err => {
+  if (err instanceof UsageError) {
+    // Parsing stopped before --no-color was applied.
+    if (process.argv.includes('--no-color')) disableColor();
+    console.error(chalk.red(`✖ ${err.message}`));
+    console.error(chalk.gray(`Run "calligrapher ${err.command ? `${err.command} ` : ''}--help" for usage.`));
+    process.exit(1);
+  }
+  console.error('Error:', err.message);
+  process.exit(1);
+});
@@ -0,0 +1,110 @@
+import { parseTag } from './theme';
+
+export const DEFAULT_TYPEWRITER_SPEED = 60;
+
+/** Tags that change how a line is presented rather than how it looks. */
+export interface PresentationTags {
+  /** Seconds to wait after the line. */
+  pause?: number;
+  /** Clear the screen before the line. */
+  clear: boolean;
+  /** Wait for Enter after the line. */
+  wait: boolean;
+}
+
+export function presentationTags(tags: string[]): PresentationTags {
+  const result: PresentationTags = { clear: false, wait: false };
+
+  for (const tag of tags.map(parseTag)) {
+    const name = tag.name.toLowerCase();
+    if (name === 'clear') {
+      result.clear = true;
+    } else if (name === 'wait') {
+      result.wait = true;
+    } else if (name === 'pause') {
+      const seconds = Number(tag.value);
+      if (tag.value && Number.isFinite(seconds) && seconds > 0) {
+        result.pause = seconds;
+      }
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Call `onKey` on the next keypress, without waiting for Enter. Only works
+ * when stdin is a terminal; with piped input nothing is read, so the input
+ * stays there for the prompts. Returns a function that stops listening.
+ */
+function onAnyKey(onKey: () => void): () => void {
+  const stdin = process.stdin;
+  if (!stdin.isTTY) return () => {};
+
+  const wasRaw = stdin.isRaw;
+  stdin.setRawMode(true);
+  stdin.resume();
+
+  const listener = (data: Buffer) => {
+    if (data[0] === 0x03) {
+      // Raw mode swallows Ctrl+C; pass it on.
+      stdin.setRawMode(wasRaw);
+      process.kill(process.pid, 'SIGINT');
+      return;
+    }
+    onKey();
+  };
+  stdin.on('data', listener);
+
+  return () => {
+    stdin.off('data', listener);
+    stdin.setRawMode(wasRaw);
+    stdin.pause();
+  };
+}
+
+/** Wait for `ms`, or less if a key is pressed. */
+export function skippableDelay(ms: number): Promise<void> {
+  return new Promise(resolve => {
+    let stop = () => {};
+    const timer = setTimeout(() => {
+      stop();
+      resolve();
+    }, ms);
+    stop = onAnyKey(() => {
+      clearTimeout(timer);
+      stop();
+      resolve();
+    });
+  });
+}
+
+/**
+ * Write text a character at a time. A keypress prints the rest at once.
+ * Escape sequences are written whole and don't count as characters.
+ */
+export async function typeOut(text: string, charsPerSecond: number): Promise<void> {
+  const pieces = text.match(/\x1b\[[0-9;]*m|[\s\S]/gu) || [];
+  const delay = 1000 / Math.max(1, charsPerSecond);
+
+  let skipped = false;
+  const stop = onAnyKey(() => {
+    skipped = true;
+  });
+
+  try {
+    for (let i = 0; i < pieces.length; i++) {
+      if (skipped) {
+        process.stdout.write(pieces.slice(i).join(''));
+        break;
+      }
+      process.stdout.write(pieces[i]);
+      if (!pieces[i].startsWith('\x1b') && pieces[i].trim()) {
+        await new Promise(resolve => setTimeout(resolve, delay));
+      }
+    }
+    process.stdout.write('\n');
+  } finally {
+    stop();
+  }
+}
@@ -0,0 +1,237 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { Story } from 'inkjs';
+import { PRNG } from 'inkjs/engine/PRNG';
+
+export const CONFIG_FILE = 'calligrapher.config.js';
+
+export interface PluginEvents {
+  /** A line of story text, with its tags. */
+  text: (text: string, tags: string[]) => void;
+  /** The player took a choice (0-based index, as offered). */
+  choice: (index: number, text: string) => void;
+  /** A line carried tags. */
+  tags: (tags: string[]) => void;
+}
+
+export type PluginEvent = keyof PluginEvents;
+
+/** Ink passes EXTERNAL arguments as ints, floats, strings or booleans. */
+export type ExternalFunction = (...args: unknown[]) => unknown;
+
+export interface PluginContext {
+  readonly story: Story;
+  /**
+   * Bind an ink EXTERNAL function. Pass lookaheadSafe only for functions with
+   * no side effects, since ink may call those early while looking ahead.
+   */
+  bind(name: string, fn: ExternalFunction, lookaheadSafe?: boolean): void;
+  observe(variable: string, observer: (name: string, value: unknown) => void): void;
+  on<E extends PluginEvent>(event: E, handler: PluginEvents[E]): void;
+}
+
+/**
+ * A plugin is set up once for every story instance the runner creates
+ * (a reload or a restored save makes a new one), so keep per-run state
+ * inside `setup`.
+ */
+export interface CalligrapherPlugin {
+  name: string;
+  setup(context: PluginContext): void;
+}
+
+export interface CalligrapherConfig {
+  plugins?: Array<string | CalligrapherPlugin>;
+}
+
+const WEEKDAYS = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+export const BUILTIN_PLUGINS: Record<string, CalligrapherPlugin> = {
+  /**
+   * roll(sides) and roll_dice(count, sides). Rolls draw on the story's own
+   * random state, as RANDOM() does, so --seed repeats them and undo, saves
+   * and reloads bring them back exactly.
+   */
+  dice: {
+    name: 'dice',
+    setup({ story, bind }) {
+      const roll = (sides: number) => {
+        const { state } = story;
+        const next = new PRNG(state.storySeed + state.previousRandom).next();
+        state.previousRandom = next;
+        return 1 + (next % Math.max(1, Math.floor(sides)));
+      };
+      bind('roll', sides => roll(Number(sides)));
+      bind('roll_dice', (count, sides) => {
+        let total = 0;
+        for (let i = 0; i < Number(count); i++) total += roll(Number(sides));
+        return total;
+      });
+    },
+  },
+
+  /** The local date and time. */
+  clock: {
+    name: 'clock',
+    setup({ bind }) {
+      const pad = (n: number) => String(n).padStart(2, '0');
+      bind('clock_hour', () => new Date().getHours());
+      bind('clock_minute', () => new Date().getMinutes());
+      bind('clock_time', () => {
+        const now = new Date();
+        return `${pad(now.getHours())}:${pad(now.getMinutes())}`;
+      });
+      bind('clock_date', () => {
+        const now = new Date();
+        return `${now.getFullYear()}-${pad(now.getMonth() + 1)}-${pad(now.getDate())}`;
+      });
+      bind('clock_weekday', () => WEEKDAYS[new Date().getDay()]);
+    },
+  },
+
+  /** env(name) returns an environment variable, or "" when it isn't set. */
+  env: {
+    name: 'env',
+    setup({ bind }) {
+      bind('env', name => process.env[String(name)] ?? '', true);
+      bind('has_env', name => process.env[String(name)] !== undefined, true);
+    },
+  },
+};
+
+function isPlugin(value: unknown): value is CalligrapherPlugin {
+  return !!value && typeof value === 'object' && typeof (value as CalligrapherPlugin).setup === 'function';
+}
+
+/**
+ * A built-in plugin by name, or a module path relative to `baseDir`. A module
+ * may export a plugin object, a default export of one, or a bare setup function.
+ */
+export function loadPlugin(spec: string | CalligrapherPlugin, baseDir: string): CalligrapherPlugin {
+  if (typeof spec !== 'string') {
+    if (!isPlugin(spec)) {
+      throw new Error('Inline plugins need a setup(context) function');
+    }
+    return { ...spec, name: spec.name || 'inline' };
+  }
+
+  if (BUILTIN_PLUGINS[spec]) {
+    return BUILTIN_PLUGINS[spec];
+  }
+
+  const file = path.resolve(baseDir, spec);
+  if (!fs.existsSync(file)) {
+    throw new Error(`Plugin not found: ${spec} (built-in plugins: ${Object.keys(BUILTIN_PLUGINS).join(', ')})`);
+  }
+
+  const exported = require(file);
+  const candidate = isPlugin(exported) ? exported : isPlugin(exported?.default) ? exported.default : exported;
+  const name = path.basename(file, path.extname(file));
+
+  if (typeof candidate === 'function') {
+    return { name, setup: candidate };
+  }
+  if (!isPlugin(candidate)) {
+    throw new Error(`Plugin ${spec} must export a setup(context) function`);
+  }
+  return { ...candidate, name: candidate.name || name };
+}
+
+/** The nearest calligrapher.config.js: next to the story, else in the working directory. */
+export function findConfig(storyPath?: string): string | null {
+  const dirs = [storyPath ? path.dirname(path.resolve(storyPath)) : null, process.cwd()];
+  for (const dir of dirs) {
+    if (dir && fs.existsSync(path.join(dir, CONFIG_FILE))) {
+      return path.join(dir, CONFIG_FILE);
+    }
+  }
+  return null;
+}
+
+/** The nearest config file and what it exports, or null when there isn't one. */
+export function loadConfig(storyPath?: string): { path: string; config: CalligrapherConfig } | null {
+  const configPath = findConfig(storyPath);
+  if (!configPath) return null;
+
+  const exported = require(configPath);
+  return { path: configPath, config: exported?.default ?? exported };
+}
+
+/** Plugins from the config file followed by those named with --plugin. */
+export function loadPlugins(specs: string[], storyPath?: string): CalligrapherPlugin[] {
+  const plugins: CalligrapherPlugin[] = [];
+
+  const loaded = loadConfig(storyPath);
+  if (loaded) {
+    const { path: configPath, config } = loaded;
+    if (config.plugins !== undefined && !Array.isArray(config.plugins)) {
+      throw new Error(`${configPath}: "plugins" must be an array`);
+    }
+    for (const spec of config.plugins || []) {
+      plugins.push(loadPlugin(spec, path.dirname(configPath)));
+    }
+  }
+
+  for (const spec of specs) {
+    plugins.push(loadPlugin(spec, process.cwd()));
+  }
+
+  return plugins;
+}
+
+/**
+ * Connects plugins to whichever story instance is current. `attach` runs
+ * every plugin's setup against a new story and checks that each EXTERNAL
+ * the story declares is bound (or has an ink fallback).
+ */
+export class PluginHost {
+  private handlers: { [E in PluginEvent]: Array<PluginEvents[E]> } = { text: [], choice: [], tags: [] };
+
+  constructor(private readonly plugins: CalligrapherPlugin[] = []) {}
+
+  get names(): string[] {
+    return this.plugins.map(plugin => plugin.name);
+  }
+
+  attach(story: Story): void {
+    this.handlers = { text: [], choice: [], tags: [] };
+    story.allowExternalFunctionFallbacks = true;
+
+    for (const plugin of this.plugins) {
+      plugin.setup({
+        story,
+        bind: (name, fn, lookaheadSafe = false) => story.BindExternalFunction(name, fn, lookaheadSafe),
+        observe: (variable, observer) => story.ObserveVariable(variable, observer),
+        on: (event, handler) => {
+          this.handlers[event].push(handler);
+        },
+      });
+    }
+
+    try {
+      story.ValidateExternalBindings();
+    } catch (error) {
+      throw new Error(withPluginHint((error as Error).message.replace(/^Error:\s*/, ''), story));
+    }
+  }
+
+  emit<E extends PluginEvent>(event: E, ...args: Parameters<PluginEvents[E]>): void {
+    for (const handler of this.handlers[event]) {
+      (handler as (...handlerArgs: Parameters<PluginEvents[E]>) => void)(...args);
+    }
+  }
+}
+
+/** Point at the built-in plugin that binds a missing external, if there is one. */
+function withPluginHint(message: string, story: Story): string {
+  const missing = Array.from(message.matchAll(/'([^']+)'/g), match => match[1]);
+  const suggestions = Object.values(BUILTIN_PLUGINS).filter(plugin => {
+    const provided: string[] = [];
+    plugin.setup({ story, bind: name => provided.push(name), observe: () => {}, on: () => {} });
+    return missing.some(name => provided.includes(name));
+  });
+
+  return suggestions.length > 0
+    ? `${message.trim()} Try --plugin ${suggestions.map(plugin => plugin.name).join(' --plugin ')}`
+    : message;
+}
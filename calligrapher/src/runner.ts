@@ -0,0 +1,460 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { Story } from 'inkjs';
+import { CompilerBackend, compileInk } from './compiler';
+import { Diagnostic } from './diagnostics';
+import { ChoiceSnapshot, DEFAULT_UNDO_LIMIT, ShownLine, UndoHistory } from './history';
+import { ReloadResult, reloadStory } from './hotReload';
+import { CalligrapherPlugin, PluginHost } from './plugins';
+import {
+  AUTOSAVE_SLOT,
+  RestoredSave,
+  SAVE_VERSION,
+  SaveData,
+  hashStory,
+  readSave,
+  resolveSaveFile,
+  restoreSave,
+  slotName,
+  slotPath,
+  writeSave,
+} from './saves';
+import { TranscriptRecorder } from './transcript';
+import { tagValue } from './theme';
+
+export interface StoryLine {
+  text: string;
+  tags: string[];
+}
+
+export interface StoryChoice {
+  /** 0-based, as passed to `choose`. */
+  index: number;
+  text: string;
+  tags: string[];
+}
+
+export interface StoryRunnerEvents {
+  /** A line of story text, with its tags. */
+  text: (line: StoryLine) => void;
+  /** The story stopped at a choice point. */
+  choices: (choices: StoryChoice[]) => void;
+  /** The player took a choice; `offered` is the menu it was taken from. */
+  choice: (choice: StoryChoice, offered: StoryChoice[]) => void;
+  /** The story ran out of content and has no choices left. */
+  end: () => void;
+  /** `undo` put the story back at an earlier choice point. */
+  rewind: (snapshot: ChoiceSnapshot) => void;
+  /** `reload` swapped in a new build of the story. */
+  reload: (result: RunnerReload) => void;
+  /** `restore` or `loadSave` put a save back onto the story. */
+  restore: (save: SaveData, restored: RestoredSave) => void;
+  save: (file: string, save: SaveData) => void;
+  /** Something went wrong that the run carries on from, such as a failed autosave. */
+  error: (error: Error) => void;
+}
+
+export type StoryRunnerEvent = keyof StoryRunnerEvents;
+
+export interface StoryRunnerOptions {
+  /** Where the story came from; saves are kept per story path. */
+  storyPath?: string;
+  compiler?: CompilerBackend;
+  /** Seed for RANDOM(), shuffles and {~a|b}; one is picked when unset. */
+  seed?: number;
+  undoLimit?: number;
+  plugins?: CalligrapherPlugin[];
+  /** Write the autosave slot after every choice. Needs `storyPath`. */
+  autosave?: boolean;
+}
+
+export interface RunnerReload extends ReloadResult {
+  /** How many choices had been taken before the reload. */
+  recordedChoices: number;
+}
+
+/** A story that failed to compile, with the compiler's messages. */
+export class StoryCompileError extends Error {
+  constructor(message: string, readonly diagnostics: Diagnostic[]) {
+    super(message);
+    this.name = 'StoryCompileError';
+  }
+}
+
+/**
+ * The compiled JSON for an .ink (compiled next to it, as `story.json`) or
+ * .json story. Throws a StoryCompileError when compilation fails.
+ */
+export function loadStoryJson(filePath: string, options: { compiler?: CompilerBackend; verbose?: boolean } = {}): string {
+  let jsonPath = filePath;
+
+  if (filePath.endsWith('.ink')) {
+    jsonPath = filePath.replace(/\.ink$/, '.json');
+    const result = compileInk({
+      inputPath: filePath,
+      outputPath: jsonPath,
+      verbose: options.verbose,
+      backend: options.compiler,
+    });
+    if (!result.success) {
+      throw new StoryCompileError(result.error || `Failed to compile ${filePath}`, result.diagnostics);
+    }
+  }
+
+  const jsonContent = fs.readFileSync(jsonPath, 'utf-8');
+  return jsonContent.charCodeAt(0) === 0xFEFF ? jsonContent.slice(1) : jsonContent;
+}
+
+/**
+ * Plays an ink story without any UI: continuing, choosing, undo, saves and
+ * hot reloads, with plugins attached to every story instance it creates.
+ * Whoever drives it decides how text and choices are shown, either from the
+ * values `continue` and `choices` return or by listening for events.
+ */
+export class StoryRunner {
+  private current: Story;
+  private storyJson: string;
+  private readonly options: StoryRunnerOptions;
+  private readonly plugins: PluginHost;
+  private readonly undoHistory: UndoHistory;
+  private handlers: { [E in StoryRunnerEvent]?: Array<StoryRunnerEvents[E]> } = {};
+  private choiceHistory: number[] = [];
+  private replayHistory = true;
+  private turnLines: ShownLine[] = [];
+  private recorder: TranscriptRecorder | null = null;
+  private runSeed: number;
+  private knot: string | null = null;
+  private latestText = '';
+  private sessionStartedAt = Date.now();
+  private playtimeOffset = 0;
+
+  constructor(storyJson: string, options: StoryRunnerOptions = {}) {
+    this.options = options;
+    this.storyJson = storyJson;
+    this.plugins = new PluginHost(options.plugins);
+    this.undoHistory = new UndoHistory(options.undoLimit ?? DEFAULT_UNDO_LIMIT);
+    this.runSeed = options.seed ?? Math.floor(Math.random() * 100000);
+    this.current = this.createStory(storyJson);
+  }
+
+  /** Compile (for .ink) or read (for .json) a story file and get it ready to play. */
+  static fromFile(filePath: string, options: StoryRunnerOptions = {}): StoryRunner {
+    return new StoryRunner(loadStoryJson(filePath, options), { ...options, storyPath: options.storyPath ?? filePath });
+  }
+
+  /** The inkjs story being played. Reloads and restored saves replace it. */
+  get story(): Story {
+    return this.current;
+  }
+
+  get storyPath(): string | undefined {
+    return this.options.storyPath;
+  }
+
+  get seed(): number {
+    return this.runSeed;
+  }
+
+  get canContinue(): boolean {
+    return this.current.canContinue;
+  }
+
+  get choices(): StoryChoice[] {
+    return this.current.currentChoices.map((choice, index) => ({ index, text: choice.text, tags: choice.tags ?? [] }));
+  }
+
+  get ended(): boolean {
+    return !this.current.canContinue && this.current.currentChoices.length === 0;
+  }
+
+  /** Indices of the choices taken so far, in order. */
+  get choicesTaken(): readonly number[] {
+    return this.choiceHistory;
+  }
+
+  /**
+   * False once the story was moved behind the choices' back (`jumpTo`,
+   * `setVariable`): replaying `choicesTaken` from the start would no longer
+   * lead here, so reloads and saves only carry the runtime state over.
+   */
+  get replayable(): boolean {
+    return this.replayHistory;
+  }
+
+  /** Choice points `undo` can go back to, oldest first. */
+  get history(): readonly ChoiceSnapshot[] {
+    return this.undoHistory.entries;
+  }
+
+  /** The knot the latest line came from, or null before the first knot. */
+  get currentKnot(): string | null {
+    return this.knot;
+  }
+
+  get lastText(): string {
+    return this.latestText;
+  }
+
+  get transcript(): TranscriptRecorder | null {
+    return this.recorder;
+  }
+
+  on<E extends StoryRunnerEvent>(event: E, handler: StoryRunnerEvents[E]): () => void {
+    const handlers = (this.handlers[event] ??= []) as Array<StoryRunnerEvents[E]>;
+    handlers.push(handler);
+    return () => this.off(event, handler);
+  }
+
+  off<E extends StoryRunnerEvent>(event: E, handler: StoryRunnerEvents[E]): void {
+    const handlers = this.handlers[event] as Array<StoryRunnerEvents[E]> | undefined;
+    const index = handlers?.indexOf(handler) ?? -1;
+    if (index >= 0) handlers!.splice(index, 1);
+  }
+
+  /** Start recording a transcript of everything played from here on. */
+  record(): TranscriptRecorder {
+    this.recorder = new TranscriptRecorder(this.current);
+    return this.recorder;
+  }
+
+  /**
+   * Play the next line. Returns null when the story can't continue (it is at
+   * a choice point or has ended). Emits `choices` or `end` once it stops.
+   */
+  continue(): StoryLine | null {
+    if (!this.current.canContinue) return null;
+
+    const text = this.current.Continue() || '';
+    const tags = this.current.currentTags || [];
+    if (text.trim()) {
+      this.latestText = text.trim();
+    }
+    // The pointer just evaluated tells us which knot the text came from;
+    // numeric first components are the story's unnamed root.
+    const knot = this.current.state.previousPointer.path?.toString().split('.')[0];
+    if (knot && !/^\d+$/.test(knot)) {
+      this.knot = knot;
+    }
+
+    const line = { text, tags: [...tags] };
+    this.recorder?.text(text, tags);
+    if (text.trim()) {
+      this.turnLines.push(line);
+      this.plugins.emit('text', text, tags);
+    }
+    if (tags.length > 0) {
+      this.plugins.emit('tags', tags);
+    }
+    this.emit('text', line);
+
+    if (!this.current.canContinue) {
+      if (this.current.currentChoices.length > 0) {
+        this.emit('choices', this.choices);
+      } else {
+        this.emit('end');
+      }
+    }
+    return line;
+  }
+
+  /** Play every line up to the next choice point or the end. */
+  continueMaximally(): StoryLine[] {
+    const lines: StoryLine[] = [];
+    for (let line = this.continue(); line; line = this.continue()) {
+      lines.push(line);
+    }
+    return lines;
+  }
+
+  /** Take a choice by its 0-based index. Autosaves when that's turned on. */
+  choose(index: number): StoryChoice {
+    const offered = this.choices;
+    const choice = offered[index];
+    if (!choice) {
+      throw new Error(`No choice ${index + 1}: ${offered.length} on offer`);
+    }
+
+    this.undoHistory.record({
+      state: this.current.state.ToJson(),
+      lines: this.turnLines,
+      choices: offered.map(option => option.text),
+      chosen: index,
+      turn: this.choiceHistory.length,
+      knot: this.knot,
+      lastText: this.latestText,
+      transcriptLength: this.recorder?.events.length ?? 0,
+    });
+    this.turnLines = [];
+    this.recorder?.choose(offered.map(option => option.text), index);
+    this.plugins.emit('choice', index, choice.text);
+    this.current.ChooseChoiceIndex(index);
+    this.choiceHistory.push(index);
+    this.autosave();
+    this.emit('choice', choice, offered);
+    return choice;
+  }
+
+  /**
+   * Take back the last `steps` choices. Returns the snapshot the story was
+   * put back to, whose `lines` are the text shown before that choice, or
+   * null when fewer than `steps` choices can be undone.
+   */
+  undo(steps = 1): ChoiceSnapshot | null {
+    const snapshot = this.undoHistory.back(steps);
+    if (!snapshot) return null;
+
+    this.current.state.LoadJson(snapshot.state);
+    this.choiceHistory = this.choiceHistory.slice(0, snapshot.turn);
+    this.recorder?.rewind(snapshot.transcriptLength);
+    this.knot = snapshot.knot;
+    this.latestText = snapshot.lastText;
+    this.turnLines = snapshot.lines;
+    this.autosave();
+    this.emit('rewind', snapshot);
+    return snapshot;
+  }
+
+  /** Divert to a knot or stitch, as the debug console's `goto` does. */
+  jumpTo(pathString: string): void {
+    this.current.ChoosePathString(pathString);
+    this.replayHistory = false;
+    this.autosave();
+  }
+
+  /** Change a global variable, as the debug console's `set` does. */
+  setVariable(name: string, value: string | number | boolean): void {
+    this.current.variablesState.$(name, value);
+    this.replayHistory = false;
+    this.autosave();
+  }
+
+  /**
+   * Swap in a new build of the story and bring it back to where the player
+   * was (see reloadStory). A finished story has no position worth keeping, so
+   * its choices are replayed to show the (possibly edited) text again.
+   */
+  reload(storyJson: string): RunnerReload {
+    const recordedChoices = this.choiceHistory.length;
+    const result = reloadStory(
+      storyJson,
+      this.ended ? null : this.current.state.ToJson(),
+      this.replayHistory ? this.choiceHistory : [],
+      this.runSeed,
+      story => this.plugins.attach(story),
+    );
+
+    this.storyJson = storyJson;
+    this.current = result.story;
+    this.recorder?.observe(this.current);
+    if (result.method === 'replay') {
+      // Replayed from the start, so the choices lead here again.
+      this.choiceHistory = this.choiceHistory.slice(0, result.replayedChoices);
+      this.replayHistory = true;
+    }
+    // Snapshots belong to the old build and may not load into the new one.
+    this.undoHistory.clear();
+
+    const reload = { ...result, recordedChoices };
+    this.emit('reload', reload);
+    return reload;
+  }
+
+  /** The run as a save, ready for writeSave. */
+  toSave(slot: string): SaveData {
+    const title = tagValue(this.current.globalTags || [], 'title');
+    const storyPath = this.options.storyPath;
+
+    return {
+      version: SAVE_VERSION,
+      slot,
+      title: title || (storyPath ? path.basename(storyPath) : 'Untitled story'),
+      knot: this.knot,
+      excerpt: this.latestText.length > 80 ? `${this.latestText.slice(0, 77)}...` : this.latestText,
+      playtimeMs: this.playtimeOffset + (Date.now() - this.sessionStartedAt),
+      savedAt: new Date().toISOString(),
+      storyPath: storyPath ? path.resolve(storyPath) : '',
+      storyHash: hashStory(this.current.ToJson() || ''),
+      state: this.current.state.ToJson(),
+      choices: this.replayHistory ? [...this.choiceHistory] : [],
+      seed: this.runSeed,
+      ...(this.replayHistory ? {} : { replayable: false as const }),
+    };
+  }
+
+  /** Write the run to one of the story's save slots and return the file written. */
+  save(slot: string): string {
+    const storyPath = this.requireStoryPath();
+    const name = slotName(slot);
+    const file = slotPath(storyPath, name);
+    const save = this.toSave(name);
+
+    writeSave(file, save);
+    this.emit('save', file, save);
+    return file;
+  }
+
+  /**
+   * Put a save back onto the story: this build's JSON unless `storyJson` is
+   * given. The save's seed, choices and playtime carry on from there.
+   */
+  restore(save: SaveData, storyJson = this.storyJson): RestoredSave {
+    const restored = restoreSave(save, storyJson, story => this.plugins.attach(story));
+
+    this.storyJson = storyJson;
+    this.current = restored.story;
+    this.recorder?.observe(this.current);
+    this.choiceHistory = save.choices.slice(0, restored.replayedChoices);
+    this.replayHistory = save.replayable !== false || restored.method === 'replay';
+    this.runSeed = save.seed;
+    this.playtimeOffset = save.playtimeMs || 0;
+    this.sessionStartedAt = Date.now();
+    this.knot = save.knot;
+    this.latestText = save.excerpt;
+    this.turnLines = [];
+    this.undoHistory.clear();
+
+    this.emit('restore', save, restored);
+    return restored;
+  }
+
+  /** Restore a save given as a file path or the name of one of the story's slots. */
+  loadSave(nameOrFile: string): { save: SaveData; restored: RestoredSave } {
+    const { save } = readSave(resolveSaveFile(this.requireStoryPath(), nameOrFile));
+    return { save, restored: this.restore(save) };
+  }
+
+  private autosave(): void {
+    if (!this.options.autosave || !this.options.storyPath) return;
+
+    try {
+      writeSave(slotPath(this.options.storyPath, AUTOSAVE_SLOT), this.toSave(AUTOSAVE_SLOT));
+    } catch (error) {
+      this.emit('error', new Error(`Autosave failed: ${(error as Error).message}`));
+    }
+  }
+
+  /**
+   * A story with its random state seeded, so the same seed picks the same
+   * branches, and plugins bound before anything runs.
+   */
+  private createStory(storyJson: string): Story {
+    const story = new Story(storyJson);
+    story.state.storySeed = this.runSeed;
+    story.state.previousRandom = 0;
+    this.plugins.attach(story);
+    return story;
+  }
+
+  private requireStoryPath(): string {
+    if (!this.options.storyPath) {
+      throw new Error('Saves need a story path; pass storyPath when creating the runner');
+    }
+    return this.options.storyPath;
+  }
+
+  private emit<E extends StoryRunnerEvent>(event: E, ...args: Parameters<StoryRunnerEvents[E]>): void {
+    for (const handler of this.handlers[event] ?? []) {
+      (handler as (...handlerArgs: Parameters<StoryRunnerEvents[E]>) => void)(...args);
+    }
+  }
+}
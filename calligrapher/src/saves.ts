@@ -0,0 +1,192 @@
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { Story } from 'inkjs';
+import { ReloadMethod, reloadStory } from './hotReload';
+
+export const AUTOSAVE_SLOT = 'autosave';
+export const SAVE_VERSION = '2.0';
+
+export interface SaveMetadata {
+  slot: string;
+  title: string;
+  knot: string | null;
+  excerpt: string;
+  playtimeMs: number;
+  savedAt: string;
+  storyPath: string;
+}
+
+/**
+ * Version 2.0 saves point at the story (path plus a hash of its compiled JSON)
+ * instead of embedding it, and record the choices taken so a save can be
+ * rebuilt by replaying them when the runtime state no longer loads.
+ */
+export interface SaveData extends SaveMetadata {
+  version: typeof SAVE_VERSION;
+  storyHash: string;
+  state: string;
+  choices: number[];
+  seed: number;
+  /**
+   * False when the run was moved by the debug console; `choices` is then
+   * empty and only `state` can bring the save back.
+   */
+  replayable?: false;
+}
+
+/** Version 1.0 saves embedded the whole compiled story and carried no choice history. */
+interface LegacySaveData extends Partial<SaveMetadata> {
+  version: '1.0';
+  storyJson: string;
+  state: string;
+  savedAt: string;
+}
+
+export interface LoadedSave {
+  save: SaveData;
+  /** The story embedded in a 1.0 save, for when its story file is unknown or gone. */
+  legacyStoryJson?: string;
+}
+
+export interface RestoredSave {
+  story: Story;
+  storyChanged: boolean;
+  method: ReloadMethod;
+  replayedChoices: number;
+}
+
+export interface SaveSummary extends SaveMetadata {
+  file: string;
+}
+
+/**
+ * Saves live under ~/.calligrapher/saves (or $CALLIGRAPHER_SAVE_DIR), one
+ * directory per story. The directory name carries a hash of the story's
+ * absolute path so two "story.ink" files in different projects don't share slots.
+ */
+export function saveDirectory(storyPath: string): string {
+  const root = process.env.CALLIGRAPHER_SAVE_DIR || path.join(os.homedir(), '.calligrapher', 'saves');
+  const absolute = path.resolve(storyPath);
+  const hash = crypto.createHash('sha1').update(absolute).digest('hex').slice(0, 8);
+  const name = path.basename(absolute, path.extname(absolute));
+  return path.join(root, `${name}-${hash}`);
+}
+
+export function slotName(name: string): string {
+  return name.trim().replace(/[^\w.-]+/g, '-').replace(/^-+|-+$/g, '') || 'save';
+}
+
+export function slotPath(storyPath: string, slot: string): string {
+  return path.join(saveDirectory(storyPath), `${slotName(slot)}.json`);
+}
+
+export function writeSave(filePath: string, data: SaveData): void {
+  fs.mkdirSync(path.dirname(filePath), { recursive: true });
+  fs.writeFileSync(filePath, JSON.stringify(data, null, 2));
+}
+
+export function hashStory(storyJson: string): string {
+  return crypto.createHash('sha256').update(storyJson).digest('hex');
+}
+
+export function readSave(filePath: string): LoadedSave {
+  const data = JSON.parse(fs.readFileSync(filePath, 'utf-8'));
+  if (!data || typeof data.state !== 'string') {
+    throw new Error(`Not a calligrapher save: ${filePath}`);
+  }
+
+  if (data.version === SAVE_VERSION) {
+    return { save: data as SaveData };
+  }
+  if (data.version === '1.0' || data.version === undefined) {
+    return upgradeLegacySave(data as LegacySaveData, filePath);
+  }
+  throw new Error(`Unsupported save version ${data.version} in ${filePath}`);
+}
+
+function upgradeLegacySave(data: LegacySaveData, filePath: string): LoadedSave {
+  const legacyStory = new Story(data.storyJson);
+
+  return {
+    save: {
+      version: SAVE_VERSION,
+      slot: data.slot || path.basename(filePath, '.json'),
+      title: data.title || (data.storyPath ? path.basename(data.storyPath) : 'Untitled story'),
+      knot: data.knot ?? null,
+      excerpt: data.excerpt || '',
+      playtimeMs: data.playtimeMs || 0,
+      savedAt: data.savedAt,
+      storyPath: data.storyPath || '',
+      storyHash: hashStory(legacyStory.ToJson() || ''),
+      state: data.state,
+      choices: [],
+      seed: JSON.parse(data.state).storySeed ?? 0,
+    },
+    legacyStoryJson: data.storyJson,
+  };
+}
+
+/**
+ * Put a save back onto the current build of its story. The runtime state is
+ * loaded directly when it still fits; otherwise the recorded choices are
+ * replayed with the save's seed. `storyChanged` flags a story edited since.
+ */
+export function restoreSave(save: SaveData, storyJson: string, prepare?: (story: Story) => void): RestoredSave {
+  const probe = new Story(storyJson);
+  const storyChanged = hashStory(probe.ToJson() || '') !== save.storyHash;
+  const result = reloadStory(storyJson, save.state, save.choices, save.seed, prepare);
+
+  return { story: result.story, storyChanged, method: result.method, replayedChoices: result.replayedChoices };
+}
+
+/** Every save for a story, newest first. Unreadable files are skipped. */
+export function listSaves(storyPath: string): SaveSummary[] {
+  const dir = saveDirectory(storyPath);
+  if (!fs.existsSync(dir)) return [];
+
+  const summaries: SaveSummary[] = [];
+  for (const entry of fs.readdirSync(dir)) {
+    if (!entry.endsWith('.json')) continue;
+    const file = path.join(dir, entry);
+    try {
+      const { save } = readSave(file);
+      const { version, storyHash, state, choices, seed, replayable, ...metadata } = save;
+      summaries.push({ ...metadata, file });
+    } catch {
+      // Not a save (or half-written); ignore it.
+    }
+  }
+
+  return summaries.sort((a, b) => (b.savedAt || '').localeCompare(a.savedAt || ''));
+}
+
+export function deleteSave(storyPath: string, slot: string): boolean {
+  const file = slotPath(storyPath, slot);
+  if (!fs.existsSync(file)) return false;
+  fs.unlinkSync(file);
+  return true;
+}
+
+/** `--save` takes either a path to a save file or the name of one of the story's slots. */
+export function resolveSaveFile(storyPath: string, nameOrFile: string): string {
+  if (fs.existsSync(nameOrFile) && fs.statSync(nameOrFile).isFile()) {
+    return nameOrFile;
+  }
+  const file = slotPath(storyPath, nameOrFile);
+  if (!fs.existsSync(file)) {
+    throw new Error(`No save named "${nameOrFile}" for ${path.basename(storyPath)}`);
+  }
+  return file;
+}
+
+export function formatPlaytime(ms: number): string {
+  const totalSeconds = Math.floor(ms / 1000);
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = totalSeconds % 60;
+  return hours > 0
+    ? `${hours}h ${String(minutes).padStart(2, '0')}m`
+    : `${minutes}m ${String(seconds).padStart(2, '0')}s`;
+}
@@ -0,0 +1,106 @@
+import * as fs from 'fs';
+import { StoryRunner } from './runner';
+
+export interface ScriptedChoice {
+  raw: string;
+  index?: number;
+  pattern?: RegExp;
+}
+
+export interface ScriptedRunResult {
+  success: boolean;
+  choicesMade: number;
+  error?: string;
+}
+
+/**
+ * Read a choice script from a file, or from stdin when the path is "-".
+ * Blank lines and lines starting with "#" are ignored.
+ */
+export function readChoiceScript(source: string): string[] {
+  const content = fs.readFileSync(source === '-' ? 0 : source, 'utf-8');
+  return content
+    .split(/\r?\n/)
+    .map(line => line.trim())
+    .filter(line => line && !line.startsWith('#'));
+}
+
+/**
+ * A line that is a whole number picks that choice (1-based, as numbered in the
+ * menu). Anything else is a case-insensitive regex matched against the choice
+ * text; "/pattern/flags" sets the flags explicitly.
+ */
+export function parseScriptedChoice(raw: string): ScriptedChoice {
+  if (/^\d+$/.test(raw)) {
+    return { raw, index: parseInt(raw, 10) - 1 };
+  }
+
+  const literal = raw.match(/^\/(.+)\/([a-z]*)$/);
+  try {
+    return { raw, pattern: literal ? new RegExp(literal[1], literal[2]) : new RegExp(raw, 'i') };
+  } catch (error) {
+    throw new Error(`Invalid choice pattern "${raw}": ${(error as Error).message}`);
+  }
+}
+
+export function resolveScriptedChoice(choice: ScriptedChoice, choices: string[]): number {
+  if (choice.index !== undefined) {
+    return choice.index >= 0 && choice.index < choices.length ? choice.index : -1;
+  }
+  return choices.findIndex(text => choice.pattern!.test(text));
+}
+
+/**
+ * Play a story without prompting, taking each choice from the script and
+ * writing a plain-text transcript through `write`. Fails if a scripted choice
+ * matches nothing on offer, or if the story ends with choices left unused.
+ * Everything goes through the runner, so plugin hooks fire as in interactive play.
+ */
+export function runScriptedPlaythrough(runner: StoryRunner, script: ScriptedChoice[], write: (line: string) => void): ScriptedRunResult {
+  let choicesMade = 0;
+
+  while (true) {
+    for (const line of runner.continueMaximally()) {
+      const text = line.text.replace(/\n$/, '');
+      if (text.trim()) {
+        write(text);
+      }
+    }
+
+    const choices = runner.choices.map(choice => choice.text);
+    if (choices.length === 0) {
+      break;
+    }
+
+    choices.forEach((text, index) => write(`  ${index + 1}. ${text}`));
+
+    if (choicesMade >= script.length) {
+      return { success: true, choicesMade };
+    }
+
+    const scripted = script[choicesMade];
+    const index = resolveScriptedChoice(scripted, choices);
+    if (index < 0) {
+      return {
+        success: false,
+        choicesMade,
+        error: `Scripted choice ${choicesMade + 1} ("${scripted.raw}") matches none of: ${choices.map((text, i) => `${i + 1}. ${text}`).join(', ')}`,
+      };
+    }
+
+    write(`> ${choices[index]}`);
+    runner.choose(index);
+    choicesMade++;
+  }
+
+  if (choicesMade < script.length) {
+    const unused = script.length - choicesMade;
+    return {
+      success: false,
+      choicesMade,
+      error: `Story ended with ${unused} scripted choice${unused === 1 ? '' : 's'} left unused`,
+    };
+  }
+
+  return { success: true, choicesMade };
+}
@@ -0,0 +1,418 @@
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as http from 'http';
+import * as path from 'path';
+import { Duplex } from 'stream';
+import { Story } from 'inkjs';
+import { WebSocket, WebSocketServer } from 'ws';
+import { CompilerBackend } from './compiler';
+import { Diagnostic } from './diagnostics';
+import { CalligrapherPlugin } from './plugins';
+import { StoryChoice, StoryCompileError, StoryLine, StoryRunner, loadStoryJson } from './runner';
+import { SaveData, readSave, slotName, slotPath } from './saves';
+import { tagValue } from './theme';
+import { StoryWatcher } from './watcher';
+
+export const DEFAULT_PORT = 4000;
+
+export interface StoryServerOptions {
+  port?: number;
+  host?: string;
+  compiler?: CompilerBackend;
+  /** Seed for sessions started without one. */
+  seed?: number;
+  plugins?: CalligrapherPlugin[];
+  /**
+   * The one browser origin allowed to call the API, e.g. a dev server's
+   * `http://localhost:5173`. When unset, any localhost origin is allowed.
+   */
+  origin?: string;
+  /** A rebuild after an edit succeeded (`sessions` were reloaded) or failed. */
+  onReload?: (changedFile: string, sessions: number) => void;
+  onCompileError?: (error: StoryCompileError) => void;
+}
+
+/** What the API returns for a session after every request. */
+export interface SessionState {
+  session: string;
+  /** Text played since the last choice (or since the session started). */
+  lines: StoryLine[];
+  choices: StoryChoice[];
+  ended: boolean;
+  knot: string | null;
+  /** How many choices have been taken. */
+  turn: number;
+  seed: number;
+  /** Increases each time the story is recompiled. */
+  build: number;
+}
+
+/** Messages pushed to a session's WebSocket. */
+export type ServerEvent =
+  | { type: 'text'; line: StoryLine }
+  | { type: 'choices'; choices: StoryChoice[] }
+  | { type: 'choice'; choice: StoryChoice }
+  | { type: 'end' }
+  | { type: 'reload'; method: 'state' | 'replay'; replayedChoices: number; recordedChoices: number; build: number }
+  | { type: 'restore'; slot: string; method: 'state' | 'replay'; replayedChoices: number; storyChanged: boolean }
+  | { type: 'compile-error'; message: string; diagnostics: Diagnostic[] }
+  | { type: 'error'; message: string };
+
+interface Session {
+  id: string;
+  runner: StoryRunner;
+  lines: StoryLine[];
+  sockets: Set<WebSocket>;
+}
+
+/** A request the API turns down; `status` is the HTTP status to answer with. */
+class ApiError extends Error {
+  constructor(readonly status: number, message: string) {
+    super(message);
+    this.name = 'ApiError';
+  }
+}
+
+const MAX_BODY_BYTES = 1024 * 1024;
+const LOCAL_HOSTNAMES = new Set(['localhost', '127.0.0.1', '[::1]']);
+const SESSION_ROUTE = /^\/sessions\/([\w-]+)(?:\/(choose|save|load|events))?$/;
+
+/**
+ * Plays one story for any number of clients over HTTP. Each session is its
+ * own StoryRunner; its events are pushed to WebSockets connected at
+ * /sessions/:id/events. The story is recompiled when it (or an INCLUDE)
+ * changes, and every session reloads, keeping its place.
+ *
+ *   POST   /sessions              start ({ seed? })
+ *   GET    /sessions/:id          state
+ *   POST   /sessions/:id/choose   take a choice ({ index }, 0-based)
+ *   POST   /sessions/:id/save     save to a slot ({ slot? })
+ *   POST   /sessions/:id/load     restore a slot ({ slot })
+ *   DELETE /sessions/:id          end the session
+ *   GET    /story                 the story's path, title and build
+ */
+export class StoryServer {
+  private readonly sessions = new Map<string, Session>();
+  private readonly server: http.Server;
+  private readonly sockets: WebSocketServer;
+  private watcher: StoryWatcher | null = null;
+  private storyJson: string;
+  private build = 1;
+  private lastError: StoryCompileError | null = null;
+
+  constructor(private readonly storyPath: string, private readonly options: StoryServerOptions = {}) {
+    this.storyJson = loadStoryJson(storyPath, { compiler: options.compiler });
+    this.server = http.createServer((request, response) => {
+      this.handle(request, response).catch(error => this.sendError(response, error));
+    });
+    this.sockets = new WebSocketServer({ noServer: true });
+    this.server.on('upgrade', (request, socket, head) => this.upgrade(request, socket, head));
+  }
+
+  /** Start listening and watching the story. Resolves to the address in use. */
+  listen(): Promise<{ host: string; port: number }> {
+    const host = this.options.host ?? '127.0.0.1';
+
+    return new Promise((resolve, reject) => {
+      this.server.once('error', reject);
+      this.server.listen(this.options.port ?? DEFAULT_PORT, host, () => {
+        this.server.off('error', reject);
+        this.watcher = new StoryWatcher(this.storyPath, { onChange: changedFile => this.rebuild(changedFile) });
+        this.watcher.start();
+        resolve({ host, port: (this.server.address() as { port: number }).port });
+      });
+    });
+  }
+
+  close(): Promise<void> {
+    this.watcher?.close();
+    for (const client of this.sockets.clients) {
+      client.terminate();
+    }
+    this.sockets.close();
+    return new Promise(resolve => this.server.close(() => resolve()));
+  }
+
+  private async handle(request: http.IncomingMessage, response: http.ServerResponse): Promise<void> {
+    // The Vite dev server and other local tools run on their own ports, but
+    // pages from anywhere else must not be able to drive the server.
+    const origin = request.headers.origin;
+    response.setHeader('Vary', 'Origin');
+    if (origin !== undefined && !this.allowsOrigin(origin)) {
+      throw new ApiError(403, `Origin ${origin} is not allowed`);
+    }
+    if (origin !== undefined) {
+      response.setHeader('Access-Control-Allow-Origin', origin);
+      response.setHeader('Access-Control-Allow-Methods', 'GET, POST, DELETE, OPTIONS');
+      response.setHeader('Access-Control-Allow-Headers', 'Content-Type');
+    }
+    if (request.method === 'OPTIONS') {
+      response.writeHead(204).end();
+      return;
+    }
+
+    const { pathname } = new URL(request.url || '/', 'http://localhost');
+
+    if (pathname === '/story' && request.method === 'GET') {
+      this.send(response, 200, {
+        story: path.basename(this.storyPath),
+        title: tagValue(new Story(this.storyJson).globalTags || [], 'title') || null,
+        build: this.build,
+        sessions: this.sessions.size,
+        compileError: this.lastError ? { message: this.lastError.message, diagnostics: this.lastError.diagnostics } : null,
+      });
+      return;
+    }
+
+    if (pathname === '/sessions' && request.method === 'POST') {
+      const body = await readJson(request);
+      const seed = body.seed ?? this.options.seed;
+      if (seed !== undefined && !(typeof seed === 'number' && Number.isInteger(seed))) {
+        throw new ApiError(400, '"seed" must be a whole number');
+      }
+      const session = this.startSession(seed);
+      this.send(response, 201, this.state(session));
+      return;
+    }
+
+    const match = pathname.match(SESSION_ROUTE);
+    if (!match || match[2] === 'events') {
+      throw new ApiError(404, `No route for ${request.method} ${pathname}`);
+    }
+
+    const session = this.sessions.get(match[1]);
+    if (!session) {
+      throw new ApiError(404, `No session ${match[1]}`);
+    }
+
+    const route = `${request.method} ${match[2] ?? ''}`.trim();
+    switch (route) {
+      case 'GET':
+        this.send(response, 200, this.state(session));
+        return;
+      case 'DELETE':
+        this.endSession(session);
+        response.writeHead(204).end();
+        return;
+      case 'POST choose': {
+        const { index } = await readJson(request);
+        const choices = session.runner.choices;
+        if (typeof index !== 'number' || !Number.isInteger(index) || index < 0 || index >= choices.length) {
+          throw new ApiError(400, choices.length === 0
+            ? 'There are no choices to take'
+            : `"index" must be a choice from 0 to ${choices.length - 1}`);
+        }
+        session.lines = [];
+        session.runner.choose(index);
+        session.runner.continueMaximally();
+        this.send(response, 200, this.state(session));
+        return;
+      }
+      case 'POST save': {
+        const { slot } = await readJson(request);
+        if (slot !== undefined && typeof slot !== 'string') {
+          throw new ApiError(400, '"slot" must be a string');
+        }
+        const file = session.runner.save(slot || 'quicksave');
+        this.send(response, 200, { slot: slotName(slot || 'quicksave'), file });
+        return;
+      }
+      case 'POST load': {
+        const { slot } = await readJson(request);
+        if (typeof slot !== 'string' || !slot) {
+          throw new ApiError(400, '"slot" is required');
+        }
+        // Only slot names: a path would let any caller read files off the disk.
+        const file = slotPath(this.storyPath, slot);
+        if (!fs.existsSync(file)) {
+          throw new ApiError(404, `No save named "${slotName(slot)}" for ${path.basename(this.storyPath)}`);
+        }
+        let save: SaveData;
+        try {
+          save = readSave(file).save;
+        } catch {
+          throw new ApiError(400, `The save "${slotName(slot)}" is damaged or not a calligrapher save`);
+        }
+        session.runner.restore(save);
+        session.lines = [];
+        session.runner.continueMaximally();
+        this.send(response, 200, this.state(session));
+        return;
+      }
+      default:
+        throw new ApiError(405, `${request.method} is not supported on ${pathname}`);
+    }
+  }
+
+  private startSession(seed?: number): Session {
+    const runner = new StoryRunner(this.storyJson, {
+      storyPath: this.storyPath,
+      seed,
+      plugins: this.options.plugins,
+    });
+    const session: Session = { id: crypto.randomUUID(), runner, lines: [], sockets: new Set() };
+
+    runner.on('text', line => {
+      if (line.text.trim()) {
+        session.lines.push(line);
+        this.push(session, { type: 'text', line });
+      }
+    });
+    runner.on('choices', choices => this.push(session, { type: 'choices', choices }));
+    runner.on('choice', choice => this.push(session, { type: 'choice', choice }));
+    runner.on('end', () => this.push(session, { type: 'end' }));
+    runner.on('reload', ({ method, replayedChoices, recordedChoices }) =>
+      this.push(session, { type: 'reload', method, replayedChoices, recordedChoices, build: this.build }));
+    runner.on('restore', (save, { method, replayedChoices, storyChanged }) =>
+      this.push(session, { type: 'restore', slot: save.slot, method, replayedChoices, storyChanged }));
+    runner.on('error', error => this.push(session, { type: 'error', message: error.message }));
+
+    this.sessions.set(session.id, session);
+    runner.continueMaximally();
+    return session;
+  }
+
+  private endSession(session: Session): void {
+    for (const socket of session.sockets) {
+      socket.close(1000, 'Session ended');
+    }
+    this.sessions.delete(session.id);
+  }
+
+  private state(session: Session): SessionState {
+    const { runner } = session;
+    return {
+      session: session.id,
+      lines: session.lines,
+      choices: runner.choices,
+      ended: runner.ended,
+      knot: runner.currentKnot,
+      turn: runner.choicesTaken.length,
+      seed: runner.seed,
+      build: this.build,
+    };
+  }
+
+  /**
+   * Recompile after an edit. A build that fails leaves every session on the
+   * previous one; clients hear about it as a compile-error event.
+   */
+  private rebuild(changedFile: string): void {
+    try {
+      this.storyJson = loadStoryJson(this.storyPath, { compiler: this.options.compiler });
+    } catch (error) {
+      const failure = error instanceof StoryCompileError ? error : new StoryCompileError((error as Error).message, []);
+      this.lastError = failure;
+      for (const session of this.sessions.values()) {
+        this.push(session, { type: 'compile-error', message: failure.message, diagnostics: failure.diagnostics });
+      }
+      this.options.onCompileError?.(failure);
+      return;
+    }
+
+    this.lastError = null;
+    this.build++;
+    for (const session of this.sessions.values()) {
+      session.lines = [];
+      try {
+        session.runner.reload(this.storyJson);
+        session.runner.continueMaximally();
+      } catch (error) {
+        this.push(session, { type: 'error', message: (error as Error).message });
+      }
+    }
+    this.options.onReload?.(changedFile, this.sessions.size);
+  }
+
+  private allowsOrigin(origin: string): boolean {
+    if (this.options.origin) {
+      return origin === this.options.origin.replace(/\/+$/, '');
+    }
+    try {
+      return LOCAL_HOSTNAMES.has(new URL(origin).hostname);
+    } catch {
+      return false;
+    }
+  }
+
+  private upgrade(request: http.IncomingMessage, socket: Duplex, head: Buffer): void {
+    // Browsers don't apply CORS to WebSockets, so check the origin here too.
+    const origin = request.headers.origin;
+    if (origin !== undefined && !this.allowsOrigin(origin)) {
+      socket.end('HTTP/1.1 403 Forbidden\r\nConnection: close\r\n\r\n');
+      return;
+    }
+
+    const { pathname } = new URL(request.url || '/', 'http://localhost');
+    const match = pathname.match(SESSION_ROUTE);
+    const session = match && match[2] === 'events' ? this.sessions.get(match[1]) : undefined;
+
+    if (!session) {
+      socket.end('HTTP/1.1 404 Not Found\r\nConnection: close\r\n\r\n');
+      return;
+    }
+
+    this.sockets.handleUpgrade(request, socket, head, client => {
+      session.sockets.add(client);
+      client.on('close', () => session.sockets.delete(client));
+    });
+  }
+
+  private push(session: Session, event: ServerEvent): void {
+    const message = JSON.stringify(event);
+    for (const socket of session.sockets) {
+      if (socket.readyState === WebSocket.OPEN) {
+        socket.send(message);
+      }
+    }
+  }
+
+  private send(response: http.ServerResponse, status: number, body: unknown): void {
+    response.writeHead(status, { 'Content-Type': 'application/json' });
+    response.end(JSON.stringify(body));
+  }
+
+  private sendError(response: http.ServerResponse, error: Error): void {
+    if (response.headersSent) {
+      response.end();
+      return;
+    }
+    const status = error instanceof ApiError ? error.status : 500;
+    this.send(response, status, { error: error.message });
+  }
+}
+
+/** The request body as JSON; an empty body is an empty object. */
+function readJson(request: http.IncomingMessage): Promise<Record<string, unknown>> {
+  return new Promise((resolve, reject) => {
+    let size = 0;
+    const chunks: Buffer[] = [];
+
+    request.on('data', (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > MAX_BODY_BYTES) {
+        reject(new ApiError(413, 'Request body is too large'));
+        request.destroy();
+        return;
+      }
+      chunks.push(chunk);
+    });
+    request.on('end', () => {
+      const text = Buffer.concat(chunks).toString('utf-8').trim();
+      if (!text) {
+        resolve({});
+        return;
+      }
+      try {
+        const body: unknown = JSON.parse(text);
+        if (!body || typeof body !== 'object' || Array.isArray(body)) {
+          throw new Error('not an object');
+        }
+        resolve(body as Record<string, unknown>);
+      } catch {
+        reject(new ApiError(400, 'Request body must be a JSON object'));
+      }
+    });
+    request.on('error', reject);
+  });
+}
@@ -0,0 +1,118 @@
+import { Story as ParsedStory } from 'inkjs/compiler/Parser/ParsedHierarchy/Story';
+import { GRAPH_END, GRAPH_START, StoryGraph, buildStoryGraph } from './graph';
+
+/** A comfortable reading pace for fiction on screen. */
+export const WORDS_PER_MINUTE = 200;
+
+export interface KnotStats {
+  name: string;
+  words: number;
+  choices: number;
+  stitches: number;
+}
+
+export interface StoryStats {
+  knots: KnotStats[];
+  totals: {
+    knots: number;
+    stitches: number;
+    words: number;
+    choices: number;
+  };
+  /** The path from the start through the most words without repeating a knot. */
+  longestPath: {
+    knots: string[];
+    words: number;
+    /** False when the story had too many paths to try them all; this is the longest found. */
+    exhaustive: boolean;
+  };
+  /** Estimated minutes to read everything, and to read the longest path. */
+  readMinutes: {
+    total: number;
+    longestPath: number;
+  };
+}
+
+export function storyStats(parsed: ParsedStory): StoryStats {
+  const detailed = buildStoryGraph(parsed);
+  const graph = buildStoryGraph(parsed, true);
+
+  const knots = graph.nodes
+    .filter(node => node.kind === 'knot')
+    .map(node => ({
+      name: node.id,
+      words: node.words,
+      choices: node.choices,
+      stitches: detailed.nodes.filter(stitch => stitch.knot === node.id).length,
+    }));
+
+  // Text before the first knot counts towards the totals but isn't a knot.
+  const opening = graph.nodes.find(node => node.id === GRAPH_START)!;
+  const words = opening.words + knots.reduce((sum, knot) => sum + knot.words, 0);
+  const longestPath = findLongestPath(graph);
+
+  return {
+    knots,
+    totals: {
+      knots: knots.length,
+      stitches: knots.reduce((sum, knot) => sum + knot.stitches, 0),
+      words,
+      choices: opening.choices + knots.reduce((sum, knot) => sum + knot.choices, 0),
+    },
+    longestPath,
+    readMinutes: {
+      total: minutes(words),
+      longestPath: minutes(longestPath.words),
+    },
+  };
+}
+
+function minutes(words: number): number {
+  return Math.round((words / WORDS_PER_MINUTE) * 10) / 10;
+}
+
+/** How many steps the longest-path search may take before settling for the best found. */
+const MAX_PATH_STEPS = 200_000;
+
+/**
+ * The heaviest path (by words) from the start that visits no knot twice, so
+ * it is a route a player could actually take. Finding it means trying every
+ * such path; story graphs are small enough for that, and a very branchy one
+ * stops after MAX_PATH_STEPS with the best path found so far.
+ */
+function findLongestPath(graph: StoryGraph): StoryStats['longestPath'] {
+  const words = new Map(graph.nodes.map(node => [node.id, node.words]));
+  const successors = new Map<string, string[]>(graph.nodes.map(node => [node.id, []]));
+  for (const edge of graph.edges) {
+    const next = successors.get(edge.from);
+    if (next && !next.includes(edge.to)) next.push(edge.to);
+  }
+
+  let best = { path: [GRAPH_START], words: words.get(GRAPH_START) || 0 };
+  let steps = 0;
+  const path: string[] = [];
+  const onPath = new Set<string>();
+
+  const visit = (id: string, total: number) => {
+    steps++;
+    path.push(id);
+    onPath.add(id);
+    total += words.get(id) || 0;
+    if (total > best.words || (total === best.words && path.length > best.path.length)) {
+      best = { path: [...path], words: total };
+    }
+    for (const next of successors.get(id) || []) {
+      if (steps >= MAX_PATH_STEPS) break;
+      if (!onPath.has(next)) visit(next, total);
+    }
+    path.pop();
+    onPath.delete(id);
+  };
+  visit(GRAPH_START, 0);
+
+  return {
+    knots: best.path.filter(id => id !== GRAPH_START && id !== GRAPH_END),
+    words: best.words,
+    exhaustive: steps < MAX_PATH_STEPS,
+  };
+}
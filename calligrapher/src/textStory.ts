@@ -0,0 +1,430 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { Diagnostic } from './diagnostics';
+
+/**
+ * The plain-text adventure format (.txt/.md):
+ *
+ *   VAR gold = 0
+ *   INCLUDE shop.txt
+ *
+ *   === start ===
+ *   You have {gold} gold.
+ *   ~ gold = gold + 5
+ *   * [Search the room] -> search
+ *   * {gold >= 10} [Buy the map] -> shop
+ *
+ * Sections start with `=== name ===`. Text lines may interpolate `{expr}`;
+ * `~ name = expr` assigns a variable declared with VAR; a choice is
+ * `* text -> target`, optionally guarded by one or more `{condition}`s. The
+ * target END finishes the story. Lines starting with // are comments.
+ */
+
+export type TextValue = number | string | boolean;
+
+export type Expression =
+  | { kind: 'literal'; value: TextValue }
+  | { kind: 'variable'; name: string }
+  | { kind: 'unary'; op: string; operand: Expression }
+  | { kind: 'binary'; op: string; left: Expression; right: Expression };
+
+/** Text is split into literal strings and `{expr}` parts. */
+export type TextTemplate = Array<string | Expression>;
+
+export type TextStatement =
+  | { type: 'text'; template: TextTemplate }
+  | { type: 'assign'; name: string; expression: Expression };
+
+export interface TextChoice {
+  template: TextTemplate;
+  conditions: Expression[];
+  target: string;
+}
+
+export interface TextSection {
+  name: string;
+  file: string;
+  line: number;
+  statements: TextStatement[];
+  choices: TextChoice[];
+}
+
+export interface TextStory {
+  start: string;
+  variables: Record<string, TextValue>;
+  sections: Record<string, TextSection>;
+}
+
+export interface TextStoryParseResult {
+  story: TextStory;
+  diagnostics: Diagnostic[];
+}
+
+/** What a section shows when entered: its text and the choices whose conditions hold. */
+export interface TextSectionView {
+  lines: string[];
+  choices: Array<{ text: string; target: string }>;
+}
+
+export const TEXT_STORY_END = 'END';
+
+class ExpressionError extends Error {
+  constructor(message: string, readonly offset: number) {
+    super(message);
+  }
+}
+
+const TOKEN_PATTERN = /\s*(?:(\d+(?:\.\d+)?)|("(?:[^"\\]|\\.)*")|([A-Za-z_]\w*)|(==|!=|<=|>=|&&|\|\||[-+*/%<>!()]))/y;
+
+interface Token {
+  text: string;
+  offset: number;
+  kind: 'number' | 'string' | 'word' | 'op';
+}
+
+function tokenize(source: string): Token[] {
+  const tokens: Token[] = [];
+  TOKEN_PATTERN.lastIndex = 0;
+
+  while (TOKEN_PATTERN.lastIndex < source.length) {
+    if (!source.slice(TOKEN_PATTERN.lastIndex).trim()) break;
+    const start = TOKEN_PATTERN.lastIndex;
+    const match = TOKEN_PATTERN.exec(source);
+    if (!match) {
+      const offset = start + (source.slice(start).length - source.slice(start).trimStart().length);
+      throw new ExpressionError(`Unexpected "${source[offset]}"`, offset);
+    }
+    const [whole, number, string, word, op] = match;
+    const offset = start + whole.length - (number ?? string ?? word ?? op).length;
+    tokens.push({
+      text: number ?? string ?? word ?? op,
+      offset,
+      kind: number ? 'number' : string ? 'string' : word ? 'word' : 'op',
+    });
+  }
+
+  return tokens;
+}
+
+const BINARY_LEVELS: string[][] = [
+  ['||', 'or'],
+  ['&&', 'and'],
+  ['==', '!='],
+  ['<', '>', '<=', '>='],
+  ['+', '-'],
+  ['*', '/', '%'],
+];
+
+/** Parse an ink-like expression: arithmetic, comparisons, and/or/not, strings and variables. */
+export function parseExpression(source: string): Expression {
+  const tokens = tokenize(source);
+  let position = 0;
+
+  const peek = () => tokens[position];
+  const fail = (message: string): never => {
+    throw new ExpressionError(message, peek()?.offset ?? source.length);
+  };
+
+  const parseLevel = (level: number): Expression => {
+    if (level === BINARY_LEVELS.length) return parseUnary();
+    let left = parseLevel(level + 1);
+    while (peek() && BINARY_LEVELS[level].includes(peek().text)) {
+      const op = tokens[position++].text;
+      left = { kind: 'binary', op: op === 'or' ? '||' : op === 'and' ? '&&' : op, left, right: parseLevel(level + 1) };
+    }
+    return left;
+  };
+
+  const parseUnary = (): Expression => {
+    const token = peek();
+    if (token && (token.text === '!' || token.text === 'not' || token.text === '-')) {
+      position++;
+      return { kind: 'unary', op: token.text === 'not' ? '!' : token.text, operand: parseUnary() };
+    }
+    return parsePrimary();
+  };
+
+  const parsePrimary = (): Expression => {
+    const token = peek();
+    if (!token) return fail('Expected a value');
+    position++;
+
+    if (token.kind === 'number') return { kind: 'literal', value: Number(token.text) };
+    if (token.kind === 'string') return { kind: 'literal', value: JSON.parse(token.text) };
+    if (token.text === 'true' || token.text === 'false') return { kind: 'literal', value: token.text === 'true' };
+    if (token.kind === 'word' && !['and', 'or', 'not'].includes(token.text)) return { kind: 'variable', name: token.text };
+    if (token.text === '(') {
+      const inner = parseLevel(0);
+      if (peek()?.text !== ')') fail('Expected ")"');
+      position++;
+      return inner;
+    }
+    position--;
+    return fail(`Unexpected "${token.text}"`);
+  };
+
+  if (tokens.length === 0) fail('Empty expression');
+  const expression = parseLevel(0);
+  if (position < tokens.length) fail(`Unexpected "${peek().text}"`);
+  return expression;
+}
+
+export function evaluate(expression: Expression, variables: Record<string, TextValue>): TextValue {
+  switch (expression.kind) {
+    case 'literal':
+      return expression.value;
+    case 'variable':
+      if (!(expression.name in variables)) {
+        throw new Error(`Unknown variable: ${expression.name}`);
+      }
+      return variables[expression.name];
+    case 'unary': {
+      const value = evaluate(expression.operand, variables);
+      return expression.op === '!' ? !value : -Number(value);
+    }
+    case 'binary': {
+      const left = evaluate(expression.left, variables);
+      // Short-circuit like ink, so `{has_key and key_count > 0}` never trips on the right side.
+      if (expression.op === '&&') return !!left && !!evaluate(expression.right, variables);
+      if (expression.op === '||') return !!left || !!evaluate(expression.right, variables);
+
+      const right = evaluate(expression.right, variables);
+      switch (expression.op) {
+        case '==': return left === right;
+        case '!=': return left !== right;
+        case '<': return left < right;
+        case '>': return left > right;
+        case '<=': return left <= right;
+        case '>=': return left >= right;
+        case '+': return typeof left === 'string' || typeof right === 'string' ? `${left}${right}` : Number(left) + Number(right);
+        case '-': return Number(left) - Number(right);
+        case '*': return Number(left) * Number(right);
+        case '/': {
+          // Whole numbers divide like ink's integers.
+          const quotient = Number(left) / Number(right);
+          return Number.isInteger(left) && Number.isInteger(right) ? Math.trunc(quotient) : quotient;
+        }
+        case '%': return Number(left) % Number(right);
+      }
+      throw new Error(`Unknown operator ${expression.op}`);
+    }
+  }
+}
+
+export function formatTextValue(value: TextValue): string {
+  return typeof value === 'number' && !Number.isInteger(value) ? String(Math.round(value * 1000) / 1000) : String(value);
+}
+
+function render(template: TextTemplate, variables: Record<string, TextValue>): string {
+  return template.map(part => (typeof part === 'string' ? part : formatTextValue(evaluate(part, variables)))).join('');
+}
+
+function variablesIn(expression: Expression): string[] {
+  switch (expression.kind) {
+    case 'literal': return [];
+    case 'variable': return [expression.name];
+    case 'unary': return variablesIn(expression.operand);
+    case 'binary': return [...variablesIn(expression.left), ...variablesIn(expression.right)];
+  }
+}
+
+/**
+ * Read a text story and everything it INCLUDEs. Problems are collected as
+ * diagnostics instead of thrown, so an author sees all of them at once:
+ * syntax errors, undeclared variables, duplicate sections and choices that
+ * lead to sections that don't exist.
+ */
+export function parseTextStory(filePath: string): TextStoryParseResult {
+  const story: TextStory = { start: 'start', variables: {}, sections: {} };
+  const diagnostics: Diagnostic[] = [];
+  const variableUses: Array<{ name: string; file: string; line: number; column: number }> = [];
+  const targets: Array<{ target: string; file: string; line: number; column: number }> = [];
+  const included = new Set<string>();
+  let firstSection: string | null = null;
+
+  const report = (file: string, line: number, column: number, message: string, severity: Diagnostic['severity'] = 'error') => {
+    diagnostics.push({ file, line, column, severity, message });
+  };
+
+  const parseAt = (source: string, file: string, line: number, column: number): Expression | null => {
+    try {
+      const expression = parseExpression(source);
+      for (const name of variablesIn(expression)) {
+        variableUses.push({ name, file, line, column });
+      }
+      return expression;
+    } catch (error) {
+      const offset = error instanceof ExpressionError ? error.offset : 0;
+      report(file, line, column + offset, `${(error as Error).message} in "${source.trim()}"`);
+      return null;
+    }
+  };
+
+  const parseTemplate = (text: string, file: string, line: number, column: number): TextTemplate => {
+    const template: TextTemplate = [];
+    let rest = text;
+    let offset = 0;
+
+    while (rest) {
+      const open = rest.indexOf('{');
+      if (open < 0) {
+        template.push(rest);
+        break;
+      }
+      const close = rest.indexOf('}', open);
+      if (close < 0) {
+        report(file, line, column + offset + open, 'Missing "}"');
+        template.push(rest);
+        break;
+      }
+      if (open > 0) template.push(rest.slice(0, open));
+      const expression = parseAt(rest.slice(open + 1, close), file, line, column + offset + open + 1);
+      if (expression) template.push(expression);
+      offset += close + 1;
+      rest = rest.slice(close + 1);
+    }
+
+    return template;
+  };
+
+  const parseFile = (file: string) => {
+    const resolved = path.resolve(file);
+    if (included.has(resolved)) return;
+    included.add(resolved);
+
+    const lines = fs.readFileSync(resolved, 'utf-8').split(/\r?\n/);
+    let section: TextSection | null = null;
+
+    lines.forEach((raw, index) => {
+      const lineNumber = index + 1;
+      const line = raw.trim();
+      const indent = raw.length - raw.trimStart().length + 1;
+      if (!line || line.startsWith('//')) return;
+
+      // Any name without spaces, as older stories used names like "cave-entrance".
+      const header = line.match(/^={2,}\s*(\S+?)\s*=*$/);
+      if (header) {
+        const name = header[1];
+        if (story.sections[name]) {
+          const existing = story.sections[name];
+          report(file, lineNumber, indent, `Section "${name}" is already defined at ${existing.file}:${existing.line}`);
+        }
+        section = { name, file, line: lineNumber, statements: [], choices: [] };
+        story.sections[name] = section;
+        firstSection ??= name;
+        return;
+      }
+
+      const declaration = line.match(/^VAR\s+(\w+)\s*=\s*(.+)$/);
+      if (declaration) {
+        const [, name, source] = declaration;
+        const expression = parseAt(source, file, lineNumber, indent + line.indexOf(source));
+        if (expression) {
+          try {
+            story.variables[name] = evaluate(expression, story.variables);
+          } catch (error) {
+            report(file, lineNumber, indent, (error as Error).message);
+          }
+        }
+        return;
+      }
+
+      const include = line.match(/^INCLUDE\s+(.+)$/);
+      if (include) {
+        const target = path.join(path.dirname(file), include[1].trim());
+        if (!fs.existsSync(target)) {
+          report(file, lineNumber, indent + line.indexOf(include[1]), `Included file not found: ${include[1].trim()}`);
+        } else {
+          parseFile(target);
+        }
+        return;
+      }
+
+      if (!section) {
+        report(file, lineNumber, indent, 'Text outside a section (start one with "=== name ===")', 'warning');
+        return;
+      }
+      const current: TextSection = section;
+
+      const assignment = line.match(/^~\s*(\w+)\s*=\s*(.+)$/);
+      if (assignment) {
+        const [, name, source] = assignment;
+        variableUses.push({ name, file, line: lineNumber, column: indent + line.indexOf(name) });
+        const expression = parseAt(source, file, lineNumber, indent + line.lastIndexOf(source));
+        if (expression) current.statements.push({ type: 'assign', name, expression });
+        return;
+      }
+
+      if (line.startsWith('*')) {
+        const choice = line.match(/^\*\s*((?:\{[^}]*\}\s*)*)(.*?)\s*->\s*(\S+)\s*$/);
+        if (!choice) {
+          report(file, lineNumber, indent, 'Choices look like "* [text] -> section"');
+          return;
+        }
+        const [, guards, text, target] = choice;
+        const conditions = Array.from(guards.matchAll(/\{([^}]*)\}/g))
+          .map(match => parseAt(match[1], file, lineNumber, indent + line.indexOf(match[0]) + 1))
+          .filter((expression): expression is Expression => expression !== null);
+        const label = text.replace(/[[\]]/g, '').trim();
+        if (!label) {
+          report(file, lineNumber, indent, 'Choice has no text');
+        }
+        current.choices.push({ template: parseTemplate(label, file, lineNumber, indent + line.indexOf(text)), conditions, target });
+        targets.push({ target, file, line: lineNumber, column: indent + line.lastIndexOf(target) });
+        return;
+      }
+
+      current.statements.push({ type: 'text', template: parseTemplate(line, file, lineNumber, indent) });
+    });
+  };
+
+  parseFile(filePath);
+
+  if (!story.sections.start) {
+    if (firstSection) {
+      story.start = firstSection;
+    } else {
+      report(filePath, 0, 0, 'No sections found (start one with "=== start ===")');
+    }
+  }
+
+  for (const use of variableUses) {
+    if (!(use.name in story.variables)) {
+      report(use.file, use.line, use.column, `Unknown variable "${use.name}" (declare it with VAR ${use.name} = ...)`);
+    }
+  }
+
+  for (const { target, file, line, column } of targets) {
+    if (target !== TEXT_STORY_END && !story.sections[target]) {
+      report(file, line, column, `Choice leads to missing section "${target}"`);
+    }
+  }
+
+  return { story, diagnostics };
+}
+
+/**
+ * Enter a section: run its assignments in order (updating `variables`),
+ * render its text and keep the choices whose conditions hold.
+ */
+export function enterSection(story: TextStory, name: string, variables: Record<string, TextValue>): TextSectionView {
+  const section = story.sections[name];
+  if (!section) {
+    throw new Error(`Section "${name}" not found`);
+  }
+
+  const lines: string[] = [];
+  for (const statement of section.statements) {
+    if (statement.type === 'assign') {
+      variables[statement.name] = evaluate(statement.expression, variables);
+    } else {
+      lines.push(render(statement.template, variables));
+    }
+  }
+
+  const choices = section.choices
+    .filter(choice => choice.conditions.every(condition => !!evaluate(condition, variables)))
+    .map(choice => ({ text: render(choice.template, variables), target: choice.target }));
+
+  return { lines, choices };
+}
@@ -0,0 +1,230 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import chalk, { ChalkInstance, backgroundColorNames, foregroundColorNames, modifierNames } from 'chalk';
+import boxen, { Options as BoxenOptions } from 'boxen';
+import figures from 'figures';
+import colors from 'ansi-colors';
+import YAML from 'yaml';
+
+export interface ParsedTag {
+  name: string;
+  value?: string;
+}
+
+/** How text carrying a tag is drawn. Any field left out falls through to the plain text style. */
+export interface TagStyle {
+  /** Chalk styles separated by spaces or dots: "cyan bold", "cyanBright.underline", "#ff8800", "bg#202020". */
+  color?: string;
+  /** Text around the line. "{value}" and "{tag}" are filled in from the tag. */
+  prefix?: string;
+  suffix?: string;
+  /** A figures symbol name ("cross", "pointer", "star") or literal text, put before the line. */
+  icon?: string;
+  /** A label before the line, styled separately, e.g. "{value}: " for speaker tags. */
+  label?: string;
+  labelColor?: string;
+  indent?: number;
+  marginTop?: number;
+  marginBottom?: number;
+  /** Draw a frame around the line; `true` uses a rounded border. */
+  box?: boolean | BoxenOptions;
+  /** Of a line's tags that have a priority, only the highest is styled. */
+  priority?: number;
+}
+
+/**
+ * `tags` styles lines by tag name ("scene", or "speaker" for "speaker: Aria");
+ * `values` styles a particular value of a key: value tag and is applied on
+ * top of the name's style.
+ */
+export interface Theme {
+  text: TagStyle;
+  tags: Record<string, TagStyle>;
+  values: Record<string, Record<string, TagStyle>>;
+}
+
+/**
+ * Reproduces the four tags calligrapher has always understood. A line only
+ * ever got one of them, title first and dialog last, hence the priorities.
+ */
+export const DEFAULT_THEME: Theme = {
+  text: { color: 'white' },
+  tags: {
+    title: { color: 'cyanBright underline', marginTop: 1, marginBottom: 1, priority: 4 },
+    scene: { color: 'yellow', prefix: '━━━ ', suffix: ' ━━━', marginTop: 1, marginBottom: 1, priority: 3 },
+    combat: { color: 'red', icon: 'cross', marginTop: 1, marginBottom: 1, priority: 2 },
+    dialog: { color: 'cyan', indent: 2, prefix: '"', suffix: '"', priority: 1 },
+  },
+  values: {},
+};
+
+const STYLE_NAMES = new Set<string>([...modifierNames, ...foregroundColorNames, ...backgroundColorNames]);
+
+/** "speaker: Aria" becomes { name: 'speaker', value: 'Aria' }; "scene" has no value. */
+export function parseTag(raw: string): ParsedTag {
+  const separator = raw.indexOf(':');
+  if (separator < 0) {
+    return { name: raw.trim() };
+  }
+  return { name: raw.slice(0, separator).trim(), value: raw.slice(separator + 1).trim() };
+}
+
+/** The value of the first `name: value` tag with this name. */
+export function tagValue(tags: string[], name: string): string | undefined {
+  return tags.map(parseTag).find(tag => tag.name.toLowerCase() === name.toLowerCase())?.value;
+}
+
+/**
+ * Turn colour off for everything calligrapher prints: chalk (and boxen, which
+ * draws with it) and the ansi-colors instance enquirer's prompts use.
+ */
+export function disableColor(): void {
+  chalk.level = 0;
+  colors.enabled = false;
+}
+
+/**
+ * Read a theme from JSON or YAML (by extension) and lay it over the default
+ * theme, so a theme file only needs the tags it changes. Every style is
+ * checked up front so a typo in a colour fails here rather than mid-story.
+ */
+export function loadTheme(filePath: string): Theme {
+  const source = fs.readFileSync(filePath, 'utf-8');
+  const ext = path.extname(filePath).toLowerCase();
+
+  let data: unknown;
+  try {
+    data = ext === '.yaml' || ext === '.yml' ? YAML.parse(source) : JSON.parse(source);
+  } catch (error) {
+    throw new Error(`Theme ${filePath}: ${(error as Error).message}`);
+  }
+
+  if (!isObject(data)) {
+    throw new Error(`Theme ${filePath}: expected an object with "text", "tags" and/or "values"`);
+  }
+
+  const theme: Theme = {
+    text: { ...DEFAULT_THEME.text, ...readStyle(data.text, 'text', filePath) },
+    tags: { ...DEFAULT_THEME.tags },
+    values: { ...DEFAULT_THEME.values },
+  };
+
+  for (const [name, style] of Object.entries(readMap(data.tags, 'tags', filePath))) {
+    theme.tags[name] = { ...DEFAULT_THEME.tags[name], ...readStyle(style, `tags.${name}`, filePath) };
+  }
+  for (const [name, byValue] of Object.entries(readMap(data.values, 'values', filePath))) {
+    theme.values[name] = {};
+    for (const [value, style] of Object.entries(readMap(byValue, `values.${name}`, filePath))) {
+      theme.values[name][value] = readStyle(style, `values.${name}.${value}`, filePath);
+    }
+  }
+
+  return theme;
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return !!value && typeof value === 'object' && !Array.isArray(value);
+}
+
+function readMap(value: unknown, where: string, filePath: string): Record<string, unknown> {
+  if (value === undefined) return {};
+  if (!isObject(value)) {
+    throw new Error(`Theme ${filePath}: "${where}" must be an object`);
+  }
+  return value;
+}
+
+function readStyle(value: unknown, where: string, filePath: string): TagStyle {
+  if (value === undefined) return {};
+  if (!isObject(value)) {
+    throw new Error(`Theme ${filePath}: "${where}" must be an object`);
+  }
+
+  const style = value as TagStyle;
+  try {
+    painter(style.color);
+    painter(style.labelColor);
+  } catch (error) {
+    throw new Error(`Theme ${filePath}: ${where}: ${(error as Error).message}`);
+  }
+  for (const field of ['indent', 'marginTop', 'marginBottom'] as const) {
+    if (style[field] !== undefined && (!Number.isInteger(style[field]) || style[field]! < 0)) {
+      throw new Error(`Theme ${filePath}: ${where}.${field} must be a whole number`);
+    }
+  }
+  if (style.priority !== undefined && !Number.isFinite(style.priority)) {
+    throw new Error(`Theme ${filePath}: ${where}.priority must be a number`);
+  }
+  return style;
+}
+
+function painter(spec: string | undefined): (text: string) => string {
+  if (!spec) return text => text;
+
+  let instance: ChalkInstance = chalk;
+  for (const token of spec.split(/[\s.]+/).filter(Boolean)) {
+    if (/^#[0-9a-f]{3}([0-9a-f]{3})?$/i.test(token)) {
+      instance = instance.hex(token);
+    } else if (/^bg#[0-9a-f]{3}([0-9a-f]{3})?$/i.test(token)) {
+      instance = instance.bgHex(token.slice(2));
+    } else if (STYLE_NAMES.has(token)) {
+      instance = instance[token as keyof typeof instance] as ChalkInstance;
+    } else {
+      throw new Error(`unknown color or style "${token}"`);
+    }
+  }
+  return text => instance(text);
+}
+
+function fill(template: string | undefined, tag: ParsedTag): string | undefined {
+  return template?.replace(/\{tag\}/g, tag.name).replace(/\{value\}/g, tag.value ?? '');
+}
+
+/**
+ * The style for a line: the plain text style, then each tag's style in the
+ * order the tags appear, then the style for the tag's value. Later fields win.
+ * Tags with a priority below the highest one on the line are skipped.
+ */
+export function resolveStyle(tags: string[], theme: Theme): TagStyle {
+  let style: TagStyle = { ...theme.text };
+  const parsed = tags.map(parseTag);
+  const top = Math.max(-Infinity, ...parsed.map(tag => theme.tags[tag.name]?.priority ?? -Infinity));
+
+  for (const tag of parsed) {
+    const priority = theme.tags[tag.name]?.priority;
+    if (priority !== undefined && priority < top) continue;
+    const layers = [theme.tags[tag.name], tag.value !== undefined ? theme.values[tag.name]?.[tag.value] : undefined];
+    for (const layer of layers) {
+      if (!layer) continue;
+      style = {
+        ...style,
+        ...layer,
+        prefix: fill(layer.prefix, tag) ?? style.prefix,
+        suffix: fill(layer.suffix, tag) ?? style.suffix,
+        label: fill(layer.label, tag) ?? style.label,
+      };
+    }
+  }
+
+  return style;
+}
+
+/** Render one line of story output (without its trailing newline) as the theme says. */
+export function renderText(text: string, tags: string[], theme: Theme): string {
+  const style = resolveStyle(tags, theme);
+  const icon = style.icon ? `${(figures as unknown as Record<string, string>)[style.icon] ?? style.icon} ` : '';
+
+  let body = painter(style.color)(`${icon}${style.prefix ?? ''}${text.replace(/\n$/, '')}${style.suffix ?? ''}`);
+  if (style.label) {
+    body = painter(style.labelColor ?? style.color)(style.label) + body;
+  }
+  if (style.box) {
+    body = boxen(body, { borderStyle: 'round', ...(style.box === true ? {} : style.box) });
+  }
+  if (style.indent) {
+    const indent = ' '.repeat(style.indent);
+    body = body.split('\n').map(line => indent + line).join('\n');
+  }
+
+  return '\n'.repeat(style.marginTop ?? 0) + body + '\n'.repeat(style.marginBottom ?? 0);
+}
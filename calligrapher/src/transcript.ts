@@ -0,0 +1,164 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { Story } from 'inkjs';
+
+export type TranscriptEvent =
+  | { type: 'text'; text: string; tags: string[] }
+  | { type: 'choices'; choices: string[] }
+  | { type: 'choose'; index: number; text: string }
+  | { type: 'variable'; name: string; value: unknown };
+
+export interface Transcript {
+  version: 1;
+  story: string;
+  seed: number;
+  recordedAt: string;
+  events: TranscriptEvent[];
+}
+
+export interface TranscriptDiff {
+  index: number;
+  expected?: TranscriptEvent;
+  actual?: TranscriptEvent;
+  context: TranscriptEvent[];
+}
+
+/**
+ * Collects everything a run produces. Variable changes are observed on the
+ * story directly; text and choices are fed in by whoever drives the story.
+ */
+export class TranscriptRecorder {
+  readonly events: TranscriptEvent[] = [];
+
+  constructor(story: Story) {
+    this.observe(story);
+  }
+
+  /** Record variable changes on `story`, e.g. the one that replaced it after a reload. */
+  observe(story: Story): void {
+    story.variablesState.ObserveVariableChange((name, value) => {
+      this.events.push({ type: 'variable', name, value: toPlainValue(value) });
+    });
+  }
+
+  text(text: string, tags: string[]): void {
+    const trimmed = text.replace(/\n$/, '');
+    if (trimmed.trim()) {
+      this.events.push({ type: 'text', text: trimmed, tags: [...tags] });
+    }
+  }
+
+  choose(choices: string[], index: number): void {
+    this.events.push({ type: 'choices', choices: [...choices] });
+    this.events.push({ type: 'choose', index, text: choices[index] });
+  }
+
+  /** Forget everything recorded after `length` events, e.g. after an undo. */
+  rewind(length: number): void {
+    this.events.length = Math.min(length, this.events.length);
+  }
+
+  toTranscript(storyPath: string, seed: number, transcriptPath: string): Transcript {
+    return {
+      version: 1,
+      story: path.relative(path.dirname(path.resolve(transcriptPath)), path.resolve(storyPath)),
+      seed,
+      recordedAt: new Date().toISOString(),
+      events: this.events,
+    };
+  }
+}
+
+function toPlainValue(value: unknown): unknown {
+  const raw = value && typeof value === 'object' && 'valueObject' in value
+    ? (value as { valueObject: unknown }).valueObject
+    : value;
+  if (raw === null || ['string', 'number', 'boolean'].includes(typeof raw)) {
+    return raw;
+  }
+  return String(raw);
+}
+
+export function saveTranscript(filePath: string, transcript: Transcript): void {
+  fs.writeFileSync(filePath, JSON.stringify(transcript, null, 2));
+}
+
+export function loadTranscript(filePath: string): Transcript {
+  const data = JSON.parse(fs.readFileSync(filePath, 'utf-8'));
+  if (data.version !== 1 || !Array.isArray(data.events) || typeof data.story !== 'string') {
+    throw new Error(`Not a calligrapher transcript: ${filePath}`);
+  }
+  return data as Transcript;
+}
+
+/** Resolve the story a transcript was recorded against, relative to the transcript. */
+export function transcriptStoryPath(transcriptPath: string, transcript: Transcript): string {
+  return path.resolve(path.dirname(transcriptPath), transcript.story);
+}
+
+/**
+ * Play a story again with the transcript's seed, taking the recorded choice
+ * indices, and record what the current build produces. Stops early when a
+ * recorded choice is no longer on offer; the diff then shows where.
+ */
+export function replayTranscript(story: Story, transcript: Transcript): TranscriptEvent[] {
+  story.state.storySeed = transcript.seed;
+  story.state.previousRandom = 0;
+
+  const recorder = new TranscriptRecorder(story);
+  const picks = transcript.events.filter(event => event.type === 'choose').map(event => (event as { index: number }).index);
+
+  for (const index of picks) {
+    while (story.canContinue) {
+      const text = story.Continue() || '';
+      recorder.text(text, story.currentTags || []);
+    }
+
+    const choices = story.currentChoices.map(choice => choice.text);
+    if (index >= choices.length) {
+      return recorder.events;
+    }
+    recorder.choose(choices, index);
+    story.ChooseChoiceIndex(index);
+  }
+
+  while (story.canContinue) {
+    const text = story.Continue() || '';
+    recorder.text(text, story.currentTags || []);
+  }
+
+  return recorder.events;
+}
+
+/** Find the first event where two runs disagree, with a little context before it. */
+export function diffTranscripts(expected: TranscriptEvent[], actual: TranscriptEvent[], contextSize = 3): TranscriptDiff | null {
+  const length = Math.max(expected.length, actual.length);
+
+  for (let i = 0; i < length; i++) {
+    if (JSON.stringify(expected[i]) !== JSON.stringify(actual[i])) {
+      return {
+        index: i,
+        expected: expected[i],
+        actual: actual[i],
+        context: expected.slice(Math.max(0, i - contextSize), i),
+      };
+    }
+  }
+
+  return null;
+}
+
+export function describeEvent(event: TranscriptEvent | undefined): string {
+  if (!event) return '(end of transcript)';
+
+  switch (event.type) {
+    case 'text':
+      return event.tags.length > 0 ? `${event.text}  # ${event.tags.join(' # ')}` : event.text;
+    case 'choices':
+      return `[choices] ${event.choices.map((text, i) => `${i + 1}. ${text}`).join(' | ')}`;
+    case 'choose':
+      return `[chose] ${event.index + 1}. ${event.text}`;
+    case 'variable':
+      return `[var] ${event.name} = ${JSON.stringify(event.value)}`;
+  }
+}
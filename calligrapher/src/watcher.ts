@@ -0,0 +1,139 @@
+import * as fs from 'fs';
+import * as path from 'path';
+
+export interface StoryWatcherOptions {
+  debounceMs?: number;
+  onChange: (changedFile: string) => void | Promise<void>;
+  /** Called when onChange throws or rejects. Without it the error goes to stderr. */
+  onError?: (error: Error, changedFile: string) => void;
+}
+
+const INCLUDE_PATTERN = /^\s*INCLUDE\s+(.+?)\s*$/;
+
+/**
+ * Collect the root story and every file it pulls in through INCLUDE lines,
+ * recursively. Include paths are resolved against the root story's directory,
+ * matching how the compiler's file handler resolves them.
+ */
+export function collectInkDependencies(rootPath: string): string[] {
+  const rootDir = path.dirname(path.resolve(rootPath));
+  const seen = new Set<string>();
+  const pending = [path.resolve(rootPath)];
+
+  while (pending.length > 0) {
+    const file = pending.pop()!;
+    if (seen.has(file)) continue;
+    seen.add(file);
+
+    let content: string;
+    try {
+      content = fs.readFileSync(file, 'utf-8');
+    } catch {
+      continue;
+    }
+
+    for (const line of content.split(/\r?\n/)) {
+      const match = line.match(INCLUDE_PATTERN);
+      if (match) {
+        pending.push(path.resolve(rootDir, match[1]));
+      }
+    }
+  }
+
+  return Array.from(seen);
+}
+
+export class StoryWatcher {
+  private watchers = new Map<string, fs.FSWatcher>();
+  private debounceTimer: NodeJS.Timeout | null = null;
+  private pendingFile: string | null = null;
+  private running = false;
+  private closed = false;
+  private readonly debounceMs: number;
+
+  constructor(private readonly rootPath: string, private readonly options: StoryWatcherOptions) {
+    this.debounceMs = options.debounceMs ?? 150;
+  }
+
+  get files(): string[] {
+    return Array.from(this.watchers.keys());
+  }
+
+  start(): void {
+    this.closed = false;
+    this.refresh();
+  }
+
+  /**
+   * Recompute the INCLUDE graph and re-attach watchers. Watchers are recreated
+   * rather than reused because editors that save by rename leave the old
+   * handle pointing at a deleted inode.
+   */
+  refresh(): void {
+    // A build that finishes after close() must not re-open the handles.
+    if (this.closed) return;
+
+    for (const watcher of this.watchers.values()) {
+      watcher.close();
+    }
+    this.watchers.clear();
+
+    for (const file of collectInkDependencies(this.rootPath)) {
+      if (!fs.existsSync(file)) continue;
+      try {
+        this.watchers.set(file, fs.watch(file, () => this.schedule(file)));
+      } catch {
+        // File disappeared between the existence check and watch(); the next refresh picks it up.
+      }
+    }
+  }
+
+  close(): void {
+    this.closed = true;
+    if (this.debounceTimer) {
+      clearTimeout(this.debounceTimer);
+      this.debounceTimer = null;
+    }
+    for (const watcher of this.watchers.values()) {
+      watcher.close();
+    }
+    this.watchers.clear();
+  }
+
+  private schedule(file: string): void {
+    if (this.closed) return;
+    this.pendingFile = file;
+    if (this.debounceTimer) {
+      clearTimeout(this.debounceTimer);
+    }
+    this.debounceTimer = setTimeout(() => this.flush(), this.debounceMs);
+  }
+
+  private async flush(): Promise<void> {
+    this.debounceTimer = null;
+    if (this.closed) return;
+
+    // A change arriving mid-build is picked up once the current build finishes.
+    if (this.running) {
+      this.schedule(this.pendingFile!);
+      return;
+    }
+
+    const file = this.pendingFile!;
+    this.pendingFile = null;
+    this.running = true;
+    try {
+      await this.options.onChange(file);
+    } catch (error) {
+      const failure = error instanceof Error ? error : new Error(String(error));
+      if (this.options.onError) {
+        this.options.onError(failure, file);
+      } else {
+        console.error(`Failed to handle a change to ${file}: ${failure.message}`);
+      }
+    } finally {
+      this.running = false;
+      this.refresh();
+    }
+  }
+}
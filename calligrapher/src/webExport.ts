@@ -0,0 +1,185 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { Story } from 'inkjs';
+import figures from 'figures';
+import { CompilerBackend } from './compiler';
+import { loadStoryJson } from './runner';
+import { hashStory } from './saves';
+import { DEFAULT_THEME, TagStyle, Theme, tagValue } from './theme';
+
+/** The player page, stylesheet and script, inlined into every export. */
+const PLAYER_DIR = path.join(__dirname, '..', 'web');
+
+export interface WebExportOptions {
+  compiler?: CompilerBackend;
+  theme?: Theme;
+}
+
+export interface WebExportResult {
+  file: string;
+  title: string;
+  bytes: number;
+  /** Things that will go wrong in the browser, such as unbound EXTERNALs. */
+  warnings: string[];
+}
+
+/** A TagStyle with its colours turned into CSS, as the page's player reads it. */
+interface WebStyle {
+  css?: Record<string, string>;
+  prefix?: string;
+  suffix?: string;
+  icon?: string;
+  label?: string;
+  labelCss?: Record<string, string>;
+  indent?: number;
+  marginTop?: number;
+  marginBottom?: number;
+  box?: boolean;
+  boxColor?: string;
+  priority?: number;
+}
+
+/** The terminal's colours on the page's dark background. */
+const PALETTE: Record<string, string> = {
+  black: '#000000',
+  red: '#cd3131',
+  green: '#0dbc79',
+  yellow: '#e5e510',
+  blue: '#2472c8',
+  magenta: '#bc3fbc',
+  cyan: '#11a8cd',
+  white: '#e5e5e5',
+  gray: '#8a8a8a',
+  grey: '#8a8a8a',
+  blackBright: '#8a8a8a',
+  redBright: '#f14c4c',
+  greenBright: '#23d18b',
+  yellowBright: '#f5f543',
+  blueBright: '#3b8eea',
+  magentaBright: '#d670d6',
+  cyanBright: '#29b8db',
+  whiteBright: '#ffffff',
+};
+
+const MODIFIERS: Record<string, Record<string, string>> = {
+  bold: { fontWeight: 'bold' },
+  dim: { opacity: '0.7' },
+  italic: { fontStyle: 'italic' },
+  underline: { textDecoration: 'underline' },
+  overline: { textDecoration: 'overline' },
+  strikethrough: { textDecoration: 'line-through' },
+  hidden: { visibility: 'hidden' },
+};
+
+/**
+ * CSS for a theme colour spec ("cyanBright underline", "#ff8800",
+ * "bg#202020", "bgRed"). loadTheme has already rejected unknown names;
+ * the few chalk styles with no CSS meaning (inverse, reset) are dropped.
+ */
+function colorCss(spec: string | undefined): Record<string, string> | undefined {
+  if (!spec) return undefined;
+
+  const css: Record<string, string> = {};
+  for (const token of spec.split(/[\s.]+/).filter(Boolean)) {
+    if (/^#[0-9a-f]{3}([0-9a-f]{3})?$/i.test(token)) {
+      css.color = token;
+    } else if (/^bg#[0-9a-f]{3}([0-9a-f]{3})?$/i.test(token)) {
+      css.backgroundColor = token.slice(2);
+    } else if (token.startsWith('bg') && PALETTE[token[2]?.toLowerCase() + token.slice(3)]) {
+      css.backgroundColor = PALETTE[token[2].toLowerCase() + token.slice(3)];
+    } else if (PALETTE[token]) {
+      css.color = PALETTE[token];
+    } else if (MODIFIERS[token]) {
+      Object.assign(css, MODIFIERS[token]);
+    }
+  }
+  return css;
+}
+
+function webStyle(style: TagStyle): WebStyle {
+  const { color, labelColor, icon, box, ...layout } = style;
+  return {
+    ...layout,
+    ...(color !== undefined ? { css: colorCss(color) } : {}),
+    ...(labelColor !== undefined ? { labelCss: colorCss(labelColor) } : {}),
+    ...(icon !== undefined ? { icon: (figures as unknown as Record<string, string>)[icon] ?? icon } : {}),
+    ...(box !== undefined ? { box: !!box } : {}),
+    ...(box && typeof box === 'object' && box.borderColor ? { boxColor: colorCss(box.borderColor)?.color } : {}),
+  };
+}
+
+function webTheme(theme: Theme) {
+  const byName = (styles: Record<string, TagStyle>) =>
+    Object.fromEntries(Object.entries(styles).map(([name, style]) => [name, webStyle(style)]));
+
+  return {
+    text: webStyle(theme.text),
+    tags: byName(theme.tags),
+    values: Object.fromEntries(Object.entries(theme.values).map(([name, byValue]) => [name, byName(byValue)])),
+  };
+}
+
+/** Text that is safe inside a <script> element. */
+function scriptSafe(source: string): string {
+  return source.replace(/<\/(script)/gi, '<\\/$1');
+}
+
+/** JSON that is safe inside a <script> element and still parses the same. */
+function jsonSafe(value: unknown): string {
+  return JSON.stringify(value).replace(/</g, '\\u003c');
+}
+
+function escapeHtml(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
+
+/**
+ * Compile a story and write a single index.html to `outDir` that plays it
+ * with no server and no network: the inkjs runtime, the story JSON and the
+ * player are all inlined. Tagged lines are styled from the theme (the CLI's
+ * default unless one is given), #clear/#pause/#wait work as in the CLI, and
+ * saves go to the browser's localStorage.
+ */
+export function exportWeb(inputPath: string, outDir: string, options: WebExportOptions = {}): WebExportResult {
+  const storyJson = loadStoryJson(inputPath, { compiler: options.compiler });
+  const story = new Story(storyJson);
+  const name = path.basename(inputPath, path.extname(inputPath));
+  const title = tagValue(story.globalTags || [], 'title') || name;
+
+  const warnings: string[] = [];
+  story.allowExternalFunctionFallbacks = true;
+  try {
+    story.ValidateExternalBindings();
+  } catch (error) {
+    // Plugins run in Node; in the browser only ink fallback functions exist.
+    warnings.push(`${(error as Error).message.replace(/^Error:\s*/, '').trim()} The web build stops if it is called.`);
+  }
+
+  const config = {
+    title,
+    // Saves are keyed by file name and title, so a new export of the story
+    // finds them but another story with the same title doesn't.
+    storyId: `${name}-${title}`.replace(/[^\w.-]+/g, '-'),
+    storyHash: hashStory(story.ToJson() || ''),
+    theme: webTheme(options.theme ?? DEFAULT_THEME),
+  };
+
+  const player = (file: string) => fs.readFileSync(path.join(PLAYER_DIR, file), 'utf-8');
+  const runtime = fs.readFileSync(require.resolve('inkjs'), 'utf-8').replace(/\n?\/\/# sourceMappingURL=.*$/, '');
+  const parts: Record<string, string> = {
+    title: escapeHtml(title),
+    style: player('player.css'),
+    config: jsonSafe(config),
+    story: storyJson.replace(/</g, '\\u003c'),
+    runtime: scriptSafe(runtime),
+    player: scriptSafe(player('player.js')),
+  };
+  // One pass, so nothing inlined is mistaken for a placeholder.
+  const html = player('player.html').replace(/\{\{(\w+)\}\}/g, (match, key: string) => parts[key] ?? match);
+
+  fs.mkdirSync(outDir, { recursive: true });
+  const file = path.join(outDir, 'index.html');
+  fs.writeFileSync(file, html);
+
+  return { file, title, bytes: Buffer.byteLength(html), warnings };
+}
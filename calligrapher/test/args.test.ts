@@ -0,0 +1,77 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { RunOptions, UsageError, parseArgs } from '../src/args';
+
+function usageError(argv: string[]): UsageError {
+  try {
+    parseArgs(argv);
+  } catch (error) {
+    assert.ok(error instanceof UsageError, `expected a UsageError, got ${error}`);
+    return error;
+  }
+  assert.fail(`parseArgs(${JSON.stringify(argv)}) should have thrown`);
+}
+
+test('run is the default command, and global options may come first', () => {
+  assert.equal(parseArgs(['story.ink']).command, 'run');
+
+  const parsed = parseArgs(['--seed', '5', 'run', 'story.ink']);
+  assert.equal(parsed.command, 'run');
+  assert.equal(parsed.file, 'story.ink');
+  assert.equal((parsed.options as RunOptions).seed, 5);
+});
+
+test('--opt=value and stacked short flags', () => {
+  const options = parseArgs(['run', 'story.ink', '--seed=7', '-vv']).options as RunOptions;
+  assert.equal(options.seed, 7);
+  assert.equal(options.verbose, 2);
+});
+
+test('a bare --help needs no command or file', () => {
+  const parsed = parseArgs(['--help']);
+  assert.equal(parsed.command, null);
+  assert.equal(parsed.help, true);
+});
+
+test('a misspelled command suggests the right one', () => {
+  const error = usageError(['complie', 'story.ink']);
+  assert.equal(error.message, 'Unknown command "complie". Did you mean "compile"?');
+  assert.equal(error.command, null);
+});
+
+test('a misspelled option suggests one the command accepts', () => {
+  const error = usageError(['lint', 'story.ink', '--fromat', 'json']);
+  assert.match(error.message, /^Unknown option --fromat for lint\. Did you mean --format\?$/);
+  assert.equal(error.command, 'lint');
+});
+
+test('an option from another command names the commands that take it', () => {
+  assert.equal(usageError(['compile', 'story.ink', '--watch']).message, "--watch is not an option for compile; it's used by: play");
+});
+
+test('a value outside the choices suggests the nearest one', () => {
+  assert.equal(
+    usageError(['graph', 'story.ink', '--format', 'mermiad']).message,
+    '--format must be one of: dot, mermaid, json (got "mermiad"). Did you mean "mermaid"?',
+  );
+});
+
+test('missing and malformed values', () => {
+  assert.equal(usageError(['run', 'story.ink', '--seed']).message, '--seed needs a value: --seed <number>');
+  assert.equal(usageError(['run', 'story.ink', '--seed', 'abc']).message, '--seed expects a whole number, got "abc"');
+  assert.equal(usageError(['run', 'story.ink', '--undo-limit', '-1']).message, '--undo-limit must be at least 0, got -1');
+  assert.equal(usageError(['run', 'story.ink', '--step=yes']).message, "--step doesn't take a value");
+});
+
+test('the story file is checked', () => {
+  assert.equal(usageError(['run']).message, 'run needs a file: calligrapher run <story>');
+  assert.equal(usageError(['run', 'a.ink', 'b.ink']).message, 'Unexpected argument "b.ink" (run takes one file)');
+  assert.equal(usageError(['compile', 'story.txt']).message, 'compile needs a .ink file, got "story.txt"');
+});
+
+test('a transcript cannot start from a resumed save', () => {
+  assert.equal(
+    usageError(['run', 'story.ink', '-o', 'run.transcript.json', '--save', 'quicksave']).message,
+    "--output records from the start of the story and can't be used with --save",
+  );
+});
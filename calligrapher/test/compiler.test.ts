@@ -0,0 +1,47 @@
+import { after, test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { Story } from 'inkjs';
+import { compileInk } from '../src/compiler';
+
+const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'calligrapher-compile-'));
+after(() => fs.rmSync(dir, { recursive: true, force: true }));
+
+function write(name: string, content: string): string {
+  const file = path.join(dir, name);
+  fs.mkdirSync(path.dirname(file), { recursive: true });
+  fs.writeFileSync(file, content);
+  return file;
+}
+
+test('inkjs compiles a story and its INCLUDEs to playable JSON', () => {
+  write('parts/ending.ink', '=== ending ===\nThe end.\n-> END\n');
+  const input = write('story.ink', '\uFEFFINCLUDE parts/ending.ink\nHello.\n-> ending\n');
+
+  const result = compileInk({ inputPath: input });
+  assert.equal(result.success, true);
+  assert.equal(result.backend, 'inkjs');
+  assert.equal(result.outputPath, path.join(dir, 'story.json'));
+  assert.deepEqual(result.diagnostics, []);
+
+  const story = new Story(fs.readFileSync(result.outputPath!, 'utf-8'));
+  assert.equal(story.ContinueMaximally(), 'Hello.\nThe end.\n');
+});
+
+test('a failed compile writes nothing and returns the errors', () => {
+  const input = write('broken.ink', 'Hello.\n-> nowhere\n');
+  const output = path.join(dir, 'broken-out.json');
+
+  const result = compileInk({ inputPath: input, outputPath: output });
+  assert.equal(result.success, false);
+  assert.match(result.error!, /^Compilation failed: .*nowhere/);
+  assert.equal(fs.existsSync(output), false);
+  assert.deepEqual(result.diagnostics.map(d => [d.severity, d.line]), [['error', 2]]);
+});
+
+test('only .ink files that exist are compiled', () => {
+  assert.equal(compileInk({ inputPath: path.join(dir, 'missing.ink') }).error, `Input file not found: ${path.join(dir, 'missing.ink')}`);
+  assert.equal(compileInk({ inputPath: write('notes.txt', 'hi') }).error, 'Expected .ink file, got: .txt');
+});
@@ -0,0 +1,87 @@
+import { after, test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { Story } from 'inkjs';
+import { Compiler } from 'inkjs/compiler/Compiler';
+import { escapeInkText, inkExpression, textStoryToInk } from '../src/convert';
+import { parseExpression, parseTextStory } from '../src/textStory';
+
+const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'calligrapher-convert-'));
+after(() => fs.rmSync(dir, { recursive: true, force: true }));
+
+test('text that ink would read as syntax is escaped', () => {
+  assert.equal(escapeInkText('Say {hi} #now | or [not] -> there // really'), 'Say \\{hi\\} \\#now \\| or \\[not\\] \\-> there /\\/ really');
+  assert.equal(escapeInkText('* not a choice'), '\\* not a choice');
+  assert.equal(escapeInkText('A plain line.'), 'A plain line.');
+});
+
+test('expressions are written with ink operators and only needed parentheses', () => {
+  assert.equal(inkExpression(parseExpression('a && !b || c')), 'a and not b or c');
+  assert.equal(inkExpression(parseExpression('(a + b) * c')), '(a + b) * c');
+  assert.equal(inkExpression(parseExpression('a - (b - c)')), 'a - (b - c)');
+  assert.equal(inkExpression(parseExpression('a - b - c')), 'a - b - c');
+});
+
+test('a converted story compiles and plays like the original', () => {
+  const file = path.join(dir, 'cave.txt');
+  fs.writeFileSync(file, [
+    'VAR torches = 1',
+    '',
+    '=== start ===',
+    'A cave. You carry {torches} torch.',
+    '* {torches > 0} [Light a torch] -> lit',
+    '* [Leave] -> END',
+    '',
+    '=== lit ===',
+    '~ torches = torches - 1',
+    'Light! {torches} left. #not a tag',
+  ].join('\n'));
+
+  const { story, diagnostics } = parseTextStory(file);
+  assert.deepEqual(diagnostics, []);
+
+  const ink = textStoryToInk(story, 'cave.txt');
+  const compiler = new Compiler(ink);
+  const compiled = compiler.Compile();
+  assert.deepEqual(compiler.errors, []);
+
+  const played = new Story(compiled.ToJson()!);
+  assert.equal(played.ContinueMaximally(), 'A cave. You carry 1 torch.\n');
+  assert.deepEqual(played.currentChoices.map(choice => choice.text), ['Light a torch', 'Leave']);
+  played.ChooseChoiceIndex(0);
+  assert.equal(played.ContinueMaximally(), 'Light! 0 left. #not a tag\n');
+  assert.deepEqual(played.currentTags, []);
+});
+
+test('section names ink would reject become distinct knot names', () => {
+  const file = path.join(dir, 'names.txt');
+  fs.writeFileSync(file, [
+    '=== cave-entrance ===',
+    'The mouth.',
+    '* [In] -> cave_entrance',
+    '* [Down] -> 2nd-level',
+    '',
+    '=== cave_entrance ===',
+    'Inside.',
+    '',
+    '=== 2nd-level ===',
+    'Deeper.',
+  ].join('\n'));
+
+  const { story, diagnostics } = parseTextStory(file);
+  assert.deepEqual(diagnostics, []);
+
+  const ink = textStoryToInk(story, 'names.txt');
+  assert.match(ink, /^-> cave_entrance$/m);
+  assert.match(ink, /\[In\] -> cave_entrance_2$/m);
+  assert.match(ink, /\[Down\] -> _2nd_level$/m);
+
+  const compiler = new Compiler(ink);
+  const played = new Story(compiler.Compile().ToJson()!);
+  assert.deepEqual(compiler.errors, []);
+  assert.equal(played.ContinueMaximally(), 'The mouth.\n');
+  played.ChooseChoiceIndex(0);
+  assert.equal(played.ContinueMaximally(), 'Inside.\n');
+});
@@ -0,0 +1,92 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { Compiler } from 'inkjs/compiler/Compiler';
+import { parseInkValue, runDebugCommand } from '../src/debugConsole';
+import { StoryRunner } from '../src/runner';
+
+const STORY = `
+VAR torches = 2
+VAR name = "Ada"
+-> hall
+
+=== hall ===
+The hall is dark.
++ [Go north] -> cellar
++ [Wait] -> hall
+
+=== cellar ===
+You are in the cellar.
++ [Climb up] -> hall
+`;
+
+const storyJson = new Compiler(STORY).Compile().ToJson()!;
+
+function start(): StoryRunner {
+  const runner = new StoryRunner(storyJson, { seed: 1 });
+  runner.continueMaximally();
+  return runner;
+}
+
+const run = (runner: StoryRunner, input: string) => runDebugCommand(runner, input, new Set()).output;
+
+test('vars lists the globals through the public variables proxy', () => {
+  assert.deepEqual(run(start(), 'vars'), ['  name = "Ada"', '  torches = 2']);
+});
+
+test('values are read as numbers, booleans and strings', () => {
+  assert.equal(parseInkValue('42'), 42);
+  assert.equal(parseInkValue('-1.5'), -1.5);
+  assert.equal(parseInkValue('true'), true);
+  assert.equal(parseInkValue('"7"'), '7');
+  assert.equal(parseInkValue('lamp'), 'lamp');
+});
+
+test('typos are reported, not thrown', () => {
+  const runner = start();
+  assert.deepEqual(run(runner, 'set lamps 1'), ['Unknown variable: lamps']);
+  assert.match(run(runner, 'goto nowhere')[0], /^Error: /);
+  assert.deepEqual(run(runner, 'frobnicate'), ['Unknown command: frobnicate (type "help" for a list)']);
+  assert.equal(runner.replayable, true);
+});
+
+test('set warns once that choices stop replaying', () => {
+  const runner = start();
+  const [assigned, warning] = run(runner, 'set torches 5');
+  assert.equal(assigned, 'torches = 5');
+  assert.match(warning, /can't replay your choices/);
+  assert.equal(runner.replayable, false);
+  assert.deepEqual(run(runner, 'set torches 6'), ['torches = 6']);
+});
+
+test('a save after goto keeps only the state', () => {
+  const runner = start();
+  runner.choose(1);
+  runner.continueMaximally();
+
+  const result = runDebugCommand(runner, 'goto cellar', new Set());
+  assert.equal(result.resume, true);
+  assert.deepEqual(runner.continueMaximally().map(line => line.text), ['You are in the cellar.\n']);
+  runner.choose(0);
+  runner.continueMaximally();
+
+  const save = runner.toSave('test');
+  assert.equal(save.replayable, false);
+  assert.deepEqual(save.choices, []);
+
+  const other = new StoryRunner(storyJson);
+  assert.equal(other.restore(save).method, 'state');
+  assert.equal(other.replayable, false);
+  assert.deepEqual(other.choices.map(choice => choice.text), ['Go north', 'Wait']);
+});
+
+test('undo still goes back past a goto', () => {
+  const runner = start();
+  runner.choose(1);
+  runner.continueMaximally();
+  run(runner, 'goto cellar');
+  runner.continueMaximally();
+
+  assert.ok(runner.undo());
+  assert.deepEqual(runner.choicesTaken, []);
+  assert.deepEqual(runner.choices.map(choice => choice.text), ['Go north', 'Wait']);
+});
@@ -0,0 +1,55 @@
+import { after, test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import chalk from 'chalk';
+import { formatDiagnostic, parseDiagnostic, parseDiagnosticOutput } from '../src/diagnostics';
+
+chalk.level = 0;
+
+const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'calligrapher-diag-'));
+after(() => fs.rmSync(dir, { recursive: true, force: true }));
+
+const story = path.join(dir, 'story.ink');
+fs.writeFileSync(story, 'INCLUDE rooms.ink\nHello.\n');
+fs.writeFileSync(path.join(dir, 'rooms.ink'), '=== hall ===\n  * [Leave] -> nowhere\n');
+
+test('file, line and severity come from the message', () => {
+  assert.deepEqual(parseDiagnostic("WARNING: 'rooms.ink' line 2: Divert target not found: '-> nowhere'", story), {
+    file: path.join(dir, 'rooms.ink'),
+    line: 2,
+    column: 13,
+    severity: 'warning',
+    message: "Divert target not found: '-> nowhere'",
+  });
+});
+
+test('a message with no location belongs to the root story', () => {
+  assert.deepEqual(parseDiagnostic('Something broke', story, 'todo'), {
+    file: story,
+    line: 0,
+    column: 0,
+    severity: 'todo',
+    message: 'Something broke',
+  });
+});
+
+test('only compiler lines are picked out of tool output', () => {
+  const output = 'inklecate 1.1\nERROR: line 1: Bad thing\nTODO: line 2: Finish this\nDone.\n';
+  assert.deepEqual(parseDiagnosticOutput(output, story).map(d => [d.severity, d.line, d.message]), [
+    ['error', 1, 'Bad thing'],
+    ['todo', 2, 'Finish this'],
+  ]);
+});
+
+test('the excerpt puts a caret under the column', () => {
+  const diagnostic = parseDiagnostic("ERROR: 'rooms.ink' line 2: Divert target not found: '-> nowhere'", story);
+  assert.equal(formatDiagnostic(diagnostic), [
+    "error: Divert target not found: '-> nowhere'",
+    `  --> ${path.join(dir, 'rooms.ink')}:2:13`,
+    '   |',
+    ' 2 |   * [Leave] -> nowhere',
+    '   |             ^',
+  ].join('\n'));
+});
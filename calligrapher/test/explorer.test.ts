@@ -0,0 +1,78 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { Compiler } from 'inkjs/compiler/Compiler';
+import { CompilerOptions } from 'inkjs/compiler/CompilerOptions';
+import { exploreStory, listKnotsAndStitches } from '../src/explorer';
+import { Story } from 'inkjs';
+
+const STORY = `
+-> hub
+
+=== hub ===
+Where now?
++ [Garden] -> garden
++ [Cellar] -> cellar
++ [Stay] -> hub
+
+=== garden ===
+= gate
+Flowers. The end.
+-> END
+
+=== cellar ===
+{ hub > 5: -> secret }
+Darkness. The end.
+-> END
+
+=== secret ===
+You found it.
+-> END
+
+=== attic ===
+Dust.
+-> END
+`;
+
+const compile = (countAllVisits: boolean) =>
+  new Compiler(STORY, new CompilerOptions(null, [], countAllVisits)).Compile().ToJson()!;
+
+test('each ending is found by a shortest path', () => {
+  const report = exploreStory(compile(false));
+  assert.deepEqual(
+    report.endings.map(ending => [ending.choices, ending.choiceTexts, ending.text]),
+    [
+      [[0], ['Garden'], 'Flowers. The end.'],
+      [[1], ['Cellar'], 'Darkness. The end.'],
+    ],
+  );
+  assert.equal(report.truncated, false);
+  assert.deepEqual(report.errors, []);
+});
+
+test('knots no path reaches are reported unvisited', () => {
+  const report = exploreStory(compile(true));
+  assert.deepEqual(report.unvisited.sort(), ['attic', 'secret']);
+  assert.ok(report.visited.includes('garden.gate'));
+});
+
+test('ignored knots are left out of coverage', () => {
+  assert.deepEqual(exploreStory(compile(true), undefined, 0, ['attic']).unvisited, ['secret']);
+});
+
+test('limits cut the walk short and say so', () => {
+  const report = exploreStory(compile(false), { maxDepth: 50, maxStates: 1, maxStepsPerTurn: 2000 });
+  assert.equal(report.truncated, true);
+});
+
+test('knots and their stitches are listed by path', () => {
+  const names = listKnotsAndStitches(new Story(compile(false)));
+  assert.ok(names.includes('garden'));
+  assert.ok(names.includes('garden.gate'));
+});
+
+test('a loop that never offers a choice is reported', () => {
+  const storyJson = new Compiler('-> spin\n=== spin ===\nAround.\n-> spin\n').Compile().ToJson()!;
+  const report = exploreStory(storyJson, { maxDepth: 50, maxStates: 10, maxStepsPerTurn: 20 });
+  assert.deepEqual(report.loops.map(loop => loop.message), ['No choice reached after 20 lines of output']);
+  assert.deepEqual(report.endings, []);
+});
@@ -0,0 +1,80 @@
+import { after, test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { buildStoryGraph, countWords, renderGraph, toDot, toMermaid } from '../src/graph';
+import { compileInkjs } from '../src/compiler';
+import { storyStats } from '../src/stats';
+
+const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'calligrapher-graph-'));
+after(() => fs.rmSync(dir, { recursive: true, force: true }));
+
+const STORY = `
+The gate stands open.
+-> yard
+
+=== yard ===
+A muddy yard with a well.
++ [Enter the "keep"] -> keep
++ [Climb down the well] -> well.bottom
++ [Leave] -> END
+
+=== keep ===
+Cold stone halls echo with every step you take here.
+-> yard
+
+=== well ===
+= bottom
+Water.
+-> END
+`;
+
+function parse() {
+  const file = path.join(dir, 'story.ink');
+  fs.writeFileSync(file, STORY);
+  const { parsed } = compileInkjs(file);
+  assert.ok(parsed);
+  return parsed;
+}
+
+test('words are counted the way a reader sees them', () => {
+  assert.equal(countWords("  It's a dark-ish night.  "), 4);
+  assert.equal(countWords(''), 0);
+});
+
+test('diverts and choices become edges between knots and stitches', () => {
+  const graph = buildStoryGraph(parse());
+  const edges = graph.edges.map(edge => `${edge.from} -${edge.kind}-> ${edge.to}${edge.label ? ` (${edge.label})` : ''}`);
+  assert.deepEqual(edges.sort(), [
+    '(start) -divert-> yard',
+    'keep -divert-> yard',
+    'well -divert-> well.bottom',
+    'well.bottom -divert-> (end)',
+    'yard -choice-> (end) (Leave)',
+    'yard -choice-> keep (Enter the "keep")',
+    'yard -choice-> well.bottom (Climb down the well)',
+  ]);
+  assert.equal(graph.nodes.find(node => node.id === 'yard')?.choices, 3);
+});
+
+test('DOT and Mermaid escape labels and group stitches under their knot', () => {
+  const graph = buildStoryGraph(parse());
+  const dot = toDot(graph);
+  assert.match(dot, /"yard" -> "keep" \[label="Enter the \\"keep\\""\];/);
+  assert.match(dot, /subgraph "cluster_well" \{/);
+
+  const mermaid = toMermaid(graph);
+  assert.match(mermaid, /^flowchart LR\n/);
+  assert.match(mermaid, /-->\|"Enter the #quot;keep#quot;"\|/);
+  assert.match(mermaid, /subgraph n\d+_group\["well"\]/);
+
+  assert.deepEqual(JSON.parse(renderGraph(graph, 'json')), graph);
+});
+
+test('stats find the longest route without repeating a knot', () => {
+  const stats = storyStats(parse());
+  assert.deepEqual(stats.totals, { knots: 3, stitches: 1, words: 29, choices: 3 });
+  assert.deepEqual(stats.longestPath.knots, ['yard', 'keep']);
+  assert.equal(stats.longestPath.exhaustive, true);
+});
@@ -0,0 +1,44 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { ChoiceSnapshot, UndoHistory, describeSnapshot } from '../src/history';
+
+function snapshot(turn: number, knot: string | null = 'hall'): ChoiceSnapshot {
+  return {
+    state: `{"turn":${turn}}`,
+    lines: [{ text: `Turn ${turn}\n`, tags: [] }],
+    choices: ['Left', 'Right'],
+    chosen: turn % 2,
+    turn,
+    knot,
+    lastText: `Turn ${turn}`,
+    transcriptLength: turn * 3,
+  };
+}
+
+test('back takes several choices at once, or none when there are too few', () => {
+  const history = new UndoHistory();
+  [0, 1, 2].forEach(turn => history.record(snapshot(turn)));
+
+  assert.equal(history.back(4), null);
+  assert.equal(history.back(0), null);
+  assert.equal(history.back(2)?.turn, 1);
+  assert.deepEqual(history.entries.map(entry => entry.turn), [0]);
+});
+
+test('a full history drops its oldest choice', () => {
+  const history = new UndoHistory(2);
+  [0, 1, 2].forEach(turn => history.record(snapshot(turn)));
+  assert.deepEqual(history.entries.map(entry => entry.turn), [1, 2]);
+});
+
+test('a limit of 0 turns undo off', () => {
+  const history = new UndoHistory(0);
+  history.record(snapshot(0));
+  assert.equal(history.size, 0);
+  assert.equal(history.back(), null);
+});
+
+test('history entries name the knot and the choice taken', () => {
+  assert.equal(describeSnapshot(snapshot(1)), '[hall] Right');
+  assert.equal(describeSnapshot(snapshot(0, null)), 'Left');
+});
@@ -0,0 +1,65 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { Compiler } from 'inkjs/compiler/Compiler';
+import { reloadStory } from '../src/hotReload';
+import { StoryRunner } from '../src/runner';
+
+const compile = (source: string) => new Compiler(source).Compile().ToJson()!;
+
+const STORY = `
+-> road
+
+=== road ===
+A fork in the road.
++ [Left] -> forest
++ [Right] -> river
+
+=== forest ===
+Trees close in.
++ [Go on] -> clearing
+
+=== river ===
+Water rushes past.
+-> END
+
+=== clearing ===
+A sunny clearing.
+-> END
+`;
+
+function playLeft(storyJson: string): StoryRunner {
+  const runner = new StoryRunner(storyJson, { seed: 1 });
+  runner.continueMaximally();
+  runner.choose(0);
+  runner.continueMaximally();
+  return runner;
+}
+
+test('an edit to the text keeps the runtime state', () => {
+  const runner = playLeft(compile(STORY));
+  const result = runner.reload(compile(STORY.replace('Trees close in.', 'Pines close in.')));
+
+  assert.equal(result.method, 'state');
+  assert.equal(result.recordedChoices, 1);
+  assert.deepEqual(runner.choices.map(choice => choice.text), ['Go on']);
+  runner.choose(0);
+  assert.deepEqual(runner.continueMaximally().map(line => line.text), ['A sunny clearing.\n']);
+});
+
+test('a renamed knot falls back to replaying the choices', () => {
+  const runner = playLeft(compile(STORY));
+  const result = runner.reload(compile(STORY.replace(/forest/g, 'woods').replace('[Go on]', '[Press on]')));
+
+  assert.equal(result.method, 'replay');
+  assert.equal(result.replayedChoices, 1);
+  assert.deepEqual(runner.choicesTaken, [0]);
+  assert.deepEqual(runner.continueMaximally().map(line => line.text), ['Trees close in.\n']);
+  assert.deepEqual(runner.choices.map(choice => choice.text), ['Press on']);
+});
+
+test('replay stops at the first choice that no longer exists', () => {
+  const result = reloadStory(compile(STORY.replace('+ [Go on] -> clearing', '-> END')), null, [0, 0]);
+  assert.equal(result.method, 'replay');
+  assert.equal(result.replayedChoices, 1);
+  assert.equal(result.story.currentChoices.length, 0);
+});
@@ -0,0 +1,86 @@
+import { after, test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { Compiler } from 'inkjs/compiler/Compiler';
+import { StoryLine, StoryRunner, StoryRunnerOptions, listSaves } from '../src/index';
+
+const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'calligrapher-library-'));
+process.env.CALLIGRAPHER_SAVE_DIR = path.join(dir, 'saves');
+after(() => fs.rmSync(dir, { recursive: true, force: true }));
+
+const compile = (source: string) => new Compiler(source).Compile().ToJson()!;
+
+const story = (greeting: string) => `
+VAR coins = 0
+${greeting}
++ [Take a coin]
+  ~ coins = coins + 1
+  -> again
+=== again ===
+You have {coins}.
++ [Take another]
+  ~ coins = coins + 1
+  -> END
+`;
+
+test('the library plays a story headlessly and reports it through events', () => {
+  const runner = new StoryRunner(compile(story('A purse.')));
+  const lines: string[] = [];
+  const taken: string[] = [];
+  let ended = false;
+  runner.on('text', (line: StoryLine) => {
+    if (line.text.trim()) lines.push(line.text.trim());
+  });
+  runner.on('choice', choice => taken.push(choice.text));
+  runner.on('end', () => {
+    ended = true;
+  });
+
+  runner.continueMaximally();
+  runner.choose(0);
+  runner.continueMaximally();
+  runner.choose(0);
+  runner.continueMaximally();
+
+  assert.deepEqual(lines, ['A purse.', 'You have 1.']);
+  assert.deepEqual(taken, ['Take a coin', 'Take another']);
+  assert.equal(ended, true);
+  assert.equal(runner.story.variablesState.$('coins'), 2);
+});
+
+test('a transcript keeps recording variable changes after a reload', () => {
+  const runner = new StoryRunner(compile(story('A purse.')));
+  const recorder = runner.record();
+  runner.continueMaximally();
+  runner.choose(0);
+  runner.continueMaximally();
+
+  runner.reload(compile(story('A leather purse.')));
+  runner.continueMaximally();
+  runner.choose(0);
+  runner.continueMaximally();
+
+  const changes = recorder.events.filter(event => event.type === 'variable');
+  assert.deepEqual(changes, [
+    { type: 'variable', name: 'coins', value: 1 },
+    { type: 'variable', name: 'coins', value: 2 },
+  ]);
+});
+
+test('fromFile compiles a story file and saves under its path', () => {
+  const file = path.join(dir, 'purse.ink');
+  fs.writeFileSync(file, story('A purse.'));
+  // Options passed through from elsewhere may name no story path at all.
+  const options: StoryRunnerOptions = { storyPath: undefined, seed: 3 };
+
+  const runner = StoryRunner.fromFile(file, options);
+  assert.equal(runner.storyPath, file);
+  runner.continueMaximally();
+  runner.choose(0);
+  runner.continueMaximally();
+  runner.save('first');
+
+  assert.deepEqual(listSaves(file).map(save => save.slot), ['first']);
+});
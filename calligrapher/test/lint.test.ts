@@ -0,0 +1,76 @@
+import { after, test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { spawnSync } from 'child_process';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { lintInk, loadLintConfig } from '../src/lint';
+
+const MAIN = path.join(__dirname, '..', 'src', 'main.ts');
+
+const dirs: string[] = [];
+after(() => dirs.forEach(dir => fs.rmSync(dir, { recursive: true, force: true })));
+
+function fixture(files: Record<string, string>): string {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'calligrapher-lint-'));
+  dirs.push(dir);
+  for (const [name, content] of Object.entries(files)) {
+    fs.writeFileSync(path.join(dir, name), content);
+  }
+  return path.join(dir, 'story.ink');
+}
+
+const STORY = `VAR unused = 1
+VAR read = 2
+-> start
+
+=== start ===
+You have {read} coins. #mood: calm
+// TODO: describe the room
++ [Leave] -> END
++ [Wait] -> start
+
+=== orphan ===
+Nobody comes here.
+-> END
+`;
+
+const rules = (file: string, allowedTags?: string[]) =>
+  lintInk(file, allowedTags).map(finding => `${finding.rule}:${finding.line}`);
+
+test('each rule fires on the line it is about', () => {
+  assert.deepEqual(rules(fixture({ 'story.ink': STORY })).sort(), ['todo:7', 'unreachable-knot:11', 'unused-variable:1']);
+});
+
+test('tags are only checked against an allowed list', () => {
+  const file = fixture({ 'story.ink': STORY });
+  assert.ok(rules(file, ['mood']).every(rule => !rule.startsWith('unknown-tag')));
+
+  const [finding] = lintInk(file, ['scene']).filter(found => found.rule === 'unknown-tag');
+  assert.equal(finding.line, 6);
+  assert.match(finding.message, /'#mood' is not in the allowed tags \(scene\)/);
+});
+
+test('a knot with no way out is one finding, not a loose end too', () => {
+  const findings = lintInk(fixture({ 'story.ink': '-> stuck\n=== stuck ===\nThe door is locked.\n' }));
+  assert.deepEqual(findings.map(finding => finding.rule), ['no-exit']);
+});
+
+test('allowed tags come from a data-only config file', () => {
+  const file = fixture({ 'story.ink': STORY, 'calligrapher.lint.yaml': 'allowedTags: [mood, scene]\n' });
+  assert.deepEqual(loadLintConfig(file)?.config.allowedTags, ['mood', 'scene']);
+});
+
+test("calligrapher lint runs none of the story directory's code", () => {
+  const file = fixture({
+    'story.ink': STORY,
+    'calligrapher.config.js': "require('fs').writeFileSync(__dirname + '/ran', '');\nmodule.exports = {};\n",
+  });
+  spawnSync(process.execPath, ['--require', 'ts-node/register', MAIN, 'lint', file], { cwd: path.dirname(file), encoding: 'utf-8' });
+  assert.equal(fs.existsSync(path.join(path.dirname(file), 'ran')), false);
+});
+
+test('a malformed config names the file', () => {
+  const file = fixture({ 'story.ink': STORY, 'calligrapher.lint.json': '{ "allowedTags": "mood" }' });
+  assert.throws(() => loadLintConfig(file), /calligrapher\.lint\.json: expected an object whose "allowedTags" is a list/);
+});
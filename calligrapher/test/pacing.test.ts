@@ -0,0 +1,34 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { presentationTags, skippableDelay, typeOut } from '../src/pacing';
+
+test('pause, clear and wait are read from the tags', () => {
+  assert.deepEqual(presentationTags(['pause: 1.5', 'Clear', 'mood: calm']), { clear: true, wait: false, pause: 1.5 });
+  assert.deepEqual(presentationTags(['wait']), { clear: false, wait: true });
+});
+
+test('a pause needs a positive number of seconds', () => {
+  for (const tag of ['pause', 'pause: soon', 'pause: 0', 'pause: -2']) {
+    assert.equal(presentationTags([tag]).pause, undefined, tag);
+  }
+});
+
+test('a delay without a terminal runs its full length', async () => {
+  const started = Date.now();
+  await skippableDelay(30);
+  assert.ok(Date.now() - started >= 25);
+});
+
+test('typed text keeps colour codes whole and ends the line', async () => {
+  const written: string[] = [];
+  const write = process.stdout.write;
+  // The test runner reports over stdout too, in binary; keep only our text.
+  process.stdout.write = ((chunk: string | Uint8Array, ...rest: never[]) =>
+    typeof chunk === 'string' ? written.push(chunk) > 0 : write.call(process.stdout, chunk, ...rest)) as typeof process.stdout.write;
+  try {
+    await typeOut('\x1b[36mHi\x1b[39m', 1000);
+  } finally {
+    process.stdout.write = write;
+  }
+  assert.deepEqual(written, ['\x1b[36m', 'H', 'i', '\x1b[39m', '\n']);
+});
@@ -0,0 +1,63 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { Compiler } from 'inkjs/compiler/Compiler';
+import { BUILTIN_PLUGINS, CalligrapherPlugin } from '../src/plugins';
+import { StoryRunner } from '../src/runner';
+import { parseScriptedChoice, runScriptedPlaythrough } from '../src/scripted';
+
+const compile = (source: string) => new Compiler(source).Compile().ToJson()!;
+
+const DICE = compile(`
+EXTERNAL roll(sides)
+You roll {roll(100)}, {roll(100)} and {roll(100)}.
+-> END
+`);
+
+const TAVERN = compile(`
+You enter the tavern. #scene: tavern
+* [Order ale]
+  The ale is warm.
+* [Leave]
+-
+-> END
+`);
+
+function recorder(events: string[]): CalligrapherPlugin {
+  return {
+    name: 'recorder',
+    setup({ on }) {
+      on('text', text => events.push(`text ${text.trim()}`));
+      on('tags', tags => events.push(`tags ${tags.join(',')}`));
+      on('choice', (index, text) => events.push(`choice ${index} ${text}`));
+    },
+  };
+}
+
+test('dice rolls repeat with the seed', () => {
+  const roll = (seed: number) => new StoryRunner(DICE, { seed, plugins: [BUILTIN_PLUGINS.dice] }).continueMaximally()[0].text;
+  assert.equal(roll(3), roll(3));
+  assert.match(roll(3), /^You roll \d+, \d+ and \d+\.\n$/);
+});
+
+test('an unbound external names the plugin that binds it', () => {
+  assert.throws(() => new StoryRunner(DICE), /roll.*Try --plugin dice/s);
+});
+
+test('scripted play fires the same plugin hooks as interactive play', () => {
+  const interactive: string[] = [];
+  const runner = new StoryRunner(TAVERN, { plugins: [recorder(interactive)] });
+  runner.continueMaximally();
+  runner.choose(0);
+  runner.continueMaximally();
+
+  const scripted: string[] = [];
+  const result = runScriptedPlaythrough(
+    new StoryRunner(TAVERN, { plugins: [recorder(scripted)] }),
+    [parseScriptedChoice('ale')],
+    () => {},
+  );
+
+  assert.equal(result.success, true);
+  assert.deepEqual(scripted, interactive);
+  assert.deepEqual(scripted, ['text You enter the tavern.', 'tags scene: tavern', 'choice 0 Order ale', 'text The ale is warm.']);
+});
@@ -0,0 +1,85 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { Compiler } from 'inkjs/compiler/Compiler';
+import { StoryRunner } from '../src/runner';
+
+const STORY = `
+VAR gold = 0
+-> gate
+
+=== gate ===
+You have {gold} gold.
++ [Take a coin]
+  ~ gold = gold + 1
+  -> gate
++ [Leave]
+  You leave.
+  -> END
+`;
+
+const storyJson = new Compiler(STORY).Compile().ToJson()!;
+
+function start(): StoryRunner {
+  const runner = new StoryRunner(storyJson, { seed: 1 });
+  runner.continueMaximally();
+  return runner;
+}
+
+const gold = (runner: StoryRunner) => runner.story.variablesState.$('gold');
+
+test('choose takes a choice and plays on from it', () => {
+  const runner = start();
+  assert.deepEqual(runner.choices.map(choice => choice.text), ['Take a coin', 'Leave']);
+
+  assert.equal(runner.choose(0).text, 'Take a coin');
+  assert.deepEqual(runner.continueMaximally().map(line => line.text), ['You have 1 gold.\n']);
+  assert.deepEqual(runner.choicesTaken, [0]);
+
+  runner.choose(1);
+  runner.continueMaximally();
+  assert.equal(runner.ended, true);
+});
+
+test('choose rejects a choice that is not on offer', () => {
+  assert.throws(() => start().choose(2), /No choice 3: 2 on offer/);
+});
+
+test('undo puts the story back to before the choice', () => {
+  const runner = start();
+  runner.choose(0);
+  runner.continueMaximally();
+  runner.choose(0);
+  runner.continueMaximally();
+  assert.equal(gold(runner), 2);
+
+  const snapshot = runner.undo();
+  assert.ok(snapshot);
+  assert.equal(snapshot.choices[snapshot.chosen], 'Take a coin');
+  assert.deepEqual(snapshot.lines.map(line => line.text), ['You have 1 gold.\n']);
+  assert.equal(gold(runner), 1);
+  assert.deepEqual(runner.choicesTaken, [0]);
+  assert.deepEqual(runner.choices.map(choice => choice.text), ['Take a coin', 'Leave']);
+
+  assert.ok(runner.undo());
+  assert.equal(gold(runner), 0);
+  assert.equal(runner.undo(), null);
+});
+
+test('restore carries a save over to another runner', () => {
+  const runner = start();
+  runner.choose(0);
+  runner.continueMaximally();
+  runner.choose(0);
+  runner.continueMaximally();
+  const save = runner.toSave('test');
+
+  const other = new StoryRunner(storyJson, { seed: 99 });
+  other.restore(save);
+  assert.equal(gold(other), 2);
+  assert.equal(other.seed, 1);
+  assert.deepEqual(other.choicesTaken, [0, 0]);
+  assert.deepEqual(other.choices.map(choice => choice.text), ['Take a coin', 'Leave']);
+
+  // A restored run has no choices of its own to undo yet.
+  assert.equal(other.undo(), null);
+});
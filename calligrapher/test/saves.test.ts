@@ -0,0 +1,175 @@
+import { after, beforeEach, test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { Story } from 'inkjs';
+import { Compiler } from 'inkjs/compiler/Compiler';
+import { StoryRunner } from '../src/runner';
+import {
+  AUTOSAVE_SLOT,
+  SAVE_VERSION,
+  deleteSave,
+  hashStory,
+  listSaves,
+  readSave,
+  resolveSaveFile,
+  restoreSave,
+  saveDirectory,
+  slotName,
+  slotPath,
+} from '../src/saves';
+
+const root = fs.mkdtempSync(path.join(os.tmpdir(), 'calligrapher-saves-'));
+process.env.CALLIGRAPHER_SAVE_DIR = path.join(root, 'saves');
+after(() => fs.rmSync(root, { recursive: true, force: true }));
+beforeEach(() => fs.rmSync(process.env.CALLIGRAPHER_SAVE_DIR!, { recursive: true, force: true }));
+
+const storyJson = new Compiler(`
+# title: The Tower
+-> stairs
+=== stairs ===
+You climb a step.
++ [Climb] -> stairs
++ [Rest] -> END
+`).Compile().ToJson()!;
+
+const storyPath = path.join(root, 'tower.ink');
+
+function playRunner(options = {}): StoryRunner {
+  const runner = new StoryRunner(storyJson, { storyPath, seed: 3, ...options });
+  runner.continueMaximally();
+  return runner;
+}
+
+test('slot names are made safe for file names', () => {
+  assert.equal(slotName(' before the boss! '), 'before-the-boss');
+  assert.equal(slotName('../../etc'), '..-..-etc');
+  assert.equal(slotName('///'), 'save');
+});
+
+test('stories with the same name keep separate slots', () => {
+  assert.notEqual(saveDirectory(path.join(root, 'a', 'story.ink')), saveDirectory(path.join(root, 'b', 'story.ink')));
+  assert.equal(path.dirname(slotPath(storyPath, 'x')), saveDirectory(storyPath));
+});
+
+test('a save carries metadata and lists newest first', async () => {
+  const runner = playRunner();
+  runner.save('first');
+  await new Promise(resolve => setTimeout(resolve, 5));
+  runner.choose(0);
+  runner.continueMaximally();
+  runner.save('second');
+
+  const saves = listSaves(storyPath);
+  assert.deepEqual(saves.map(save => save.slot), ['second', 'first']);
+  assert.equal(saves[0].title, 'The Tower');
+  assert.equal(saves[0].knot, 'stairs');
+  assert.equal(saves[0].excerpt, 'You climb a step.');
+  assert.equal(saves[0].storyPath, storyPath);
+});
+
+test('autosave follows every choice', () => {
+  const runner = playRunner({ autosave: true });
+  runner.choose(0);
+  runner.continueMaximally();
+  runner.choose(0);
+  assert.deepEqual(readSave(slotPath(storyPath, AUTOSAVE_SLOT)).save.choices, [0, 0]);
+});
+
+test('a failed autosave is reported and play carries on', () => {
+  fs.mkdirSync(path.dirname(process.env.CALLIGRAPHER_SAVE_DIR!), { recursive: true });
+  fs.writeFileSync(process.env.CALLIGRAPHER_SAVE_DIR!, 'not a directory');
+  try {
+    const runner = playRunner({ autosave: true });
+    const errors: string[] = [];
+    runner.on('error', error => errors.push(error.message));
+    runner.choose(0);
+    assert.equal(errors.length, 1);
+    assert.match(errors[0], /^Autosave failed: /);
+  } finally {
+    fs.rmSync(process.env.CALLIGRAPHER_SAVE_DIR!, { force: true });
+  }
+});
+
+test('saves are found by slot or file, loaded and deleted', () => {
+  const runner = playRunner();
+  runner.choose(0);
+  const file = runner.save('keep');
+
+  assert.equal(resolveSaveFile(storyPath, 'keep'), file);
+  assert.equal(resolveSaveFile(storyPath, file), file);
+  assert.throws(() => resolveSaveFile(storyPath, 'missing'), /No save named "missing" for tower\.ink/);
+
+  const other = playRunner();
+  other.loadSave('keep');
+  assert.deepEqual(other.choicesTaken, [0]);
+
+  assert.equal(deleteSave(storyPath, 'keep'), true);
+  assert.equal(deleteSave(storyPath, 'keep'), false);
+  assert.deepEqual(listSaves(storyPath), []);
+});
+
+function writeJson(name: string, data: unknown): string {
+  const file = path.join(root, name);
+  fs.writeFileSync(file, JSON.stringify(data));
+  return file;
+}
+
+test('a 1.0 save is upgraded to 2.0 and keeps its embedded story', () => {
+  const legacy = new Story(storyJson);
+  legacy.state.storySeed = 12;
+  legacy.ContinueMaximally();
+  legacy.ChooseChoiceIndex(0);
+  const file = writeJson('legacy.json', {
+    version: '1.0',
+    storyJson,
+    state: legacy.state.ToJson(),
+    savedAt: '2024-01-01T00:00:00.000Z',
+  });
+
+  const { save, legacyStoryJson } = readSave(file);
+  assert.equal(save.version, SAVE_VERSION);
+  assert.equal(save.slot, 'legacy');
+  assert.equal(save.title, 'Untitled story');
+  assert.equal(save.storyHash, hashStory(new Story(storyJson).ToJson()!));
+  assert.deepEqual(save.choices, []);
+  assert.equal(save.seed, 12);
+  assert.equal(legacyStoryJson, storyJson);
+
+  const runner = new StoryRunner(legacyStoryJson!);
+  const restored = runner.restore(save);
+  assert.equal(restored.method, 'state');
+  assert.equal(restored.storyChanged, false);
+  assert.deepEqual(runner.continueMaximally().map(line => line.text), ['You climb a step.\n']);
+});
+
+test('an unknown save version is refused', () => {
+  assert.throws(() => readSave(writeJson('future.json', { version: '9.0', state: '{}' })), /Unsupported save version 9\.0/);
+  assert.throws(() => readSave(writeJson('junk.json', { hello: 'world' })), /Not a calligrapher save/);
+});
+
+test('a save from a changed story whose state no longer fits is rebuilt by replay', () => {
+  const runner = playRunner();
+  runner.choose(0);
+  runner.continueMaximally();
+  runner.choose(0);
+  runner.continueMaximally();
+  const save = runner.toSave('test');
+
+  const changed = new Compiler(`
+# title: The Tower
+-> steps
+=== steps ===
+You climb a stair.
++ [Climb] -> steps
++ [Rest] -> END
+`).Compile().ToJson()!;
+
+  const restored = restoreSave(save, changed);
+  assert.equal(restored.storyChanged, true);
+  assert.equal(restored.method, 'replay');
+  assert.equal(restored.replayedChoices, 2);
+  assert.equal(restored.story.ContinueMaximally(), 'You climb a stair.\n');
+  assert.equal(restored.story.state.storySeed, save.seed);
+});
@@ -0,0 +1,74 @@
+import { after, test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { Compiler } from 'inkjs/compiler/Compiler';
+import { StoryRunner } from '../src/runner';
+import { parseScriptedChoice, readChoiceScript, resolveScriptedChoice, runScriptedPlaythrough } from '../src/scripted';
+
+const STORY = new Compiler(`
+At the door.
+* [Knock] Nobody answers.
+* [Open the door] It creaks open.
+-
+Inside, a staircase.
+* [Go up] You climb.
+* [Go down] You descend.
+-
+-> END
+`).Compile().ToJson()!;
+
+function play(lines: string[]) {
+  const output: string[] = [];
+  const result = runScriptedPlaythrough(new StoryRunner(STORY, { seed: 1 }), lines.map(parseScriptedChoice), line => output.push(line));
+  return { result, output };
+}
+
+test('numbers pick by position and anything else matches the text', () => {
+  assert.equal(resolveScriptedChoice(parseScriptedChoice('2'), ['a', 'b']), 1);
+  assert.equal(resolveScriptedChoice(parseScriptedChoice('3'), ['a', 'b']), -1);
+  assert.equal(resolveScriptedChoice(parseScriptedChoice('OPEN'), ['Knock', 'Open the door']), 1);
+  assert.equal(resolveScriptedChoice(parseScriptedChoice('/^open/'), ['Open the door']), -1);
+  assert.throws(() => parseScriptedChoice('(unclosed'), /Invalid choice pattern "\(unclosed"/);
+});
+
+test('a full script plays to the end and writes a transcript', () => {
+  const { result, output } = play(['open', '1']);
+  assert.deepEqual(result, { success: true, choicesMade: 2 });
+  assert.deepEqual(output, [
+    'At the door.',
+    '  1. Knock',
+    '  2. Open the door',
+    '> Open the door',
+    'It creaks open.',
+    'Inside, a staircase.',
+    '  1. Go up',
+    '  2. Go down',
+    '> Go up',
+    'You climb.',
+  ]);
+});
+
+test('a choice that is not on offer fails the run', () => {
+  const { result } = play(['knock', 'sideways']);
+  assert.equal(result.success, false);
+  assert.equal(result.choicesMade, 1);
+  assert.equal(result.error, 'Scripted choice 2 ("sideways") matches none of: 1. Go up, 2. Go down');
+});
+
+test('choices left over at the end fail the run', () => {
+  assert.equal(play(['1', '1', '1']).result.error, 'Story ended with 1 scripted choice left unused');
+});
+
+test('a short script stops at the next choice point', () => {
+  assert.deepEqual(play(['1']).result, { success: true, choicesMade: 1 });
+});
+
+test('choice scripts skip blank lines and comments', () => {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'calligrapher-script-'));
+  after(() => fs.rmSync(dir, { recursive: true, force: true }));
+  const file = path.join(dir, 'playthrough.txt');
+  fs.writeFileSync(file, '# the short way\nopen\n\n  2  \n');
+  assert.deepEqual(readChoiceScript(file), ['open', '2']);
+});
@@ -0,0 +1,35 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { Compiler } from 'inkjs/compiler/Compiler';
+import { StoryRunner } from '../src/runner';
+
+const STORY = new Compiler(`
+~ temp roll = RANDOM(1, 1000)
+You rolled {roll}. A {~cat|dog|crow|toad|hare} watches.
++ [Again] -> again
+= again
+You rolled {RANDOM(1, 1000)}.
+-> END
+`).Compile().ToJson()!;
+
+function play(seed?: number): string[] {
+  const runner = new StoryRunner(STORY, { seed });
+  const lines = runner.continueMaximally();
+  runner.choose(0);
+  return [...lines, ...runner.continueMaximally()].map(line => line.text);
+}
+
+test('the same seed plays the same random branches', () => {
+  assert.deepEqual(play(42), play(42));
+});
+
+test('different seeds pick differently', () => {
+  const runs = new Set([1, 2, 3, 4, 5].map(seed => play(seed).join('')));
+  assert.ok(runs.size > 1);
+});
+
+test('an unseeded run picks a seed that repeats it', () => {
+  const runner = new StoryRunner(STORY);
+  const first = runner.continueMaximally().map(line => line.text);
+  assert.deepEqual(play(runner.seed).slice(0, first.length), first);
+});
@@ -0,0 +1,119 @@
+import { after, before, test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { Compiler } from 'inkjs/compiler/Compiler';
+import { StoryServer } from '../src/server';
+
+const STORY = `
+# title: The Gate
+-> gate
+
+=== gate ===
+A gate.
++ [Open it] -> yard
++ [Walk away] -> END
+
+=== yard ===
+A yard.
+-> END
+`;
+
+const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'calligrapher-server-'));
+const storyPath = path.join(dir, 'gate.json');
+let server: StoryServer;
+let base = '';
+
+before(async () => {
+  process.env.CALLIGRAPHER_SAVE_DIR = path.join(dir, 'saves');
+  fs.writeFileSync(storyPath, new Compiler(STORY).Compile().ToJson()!);
+  server = new StoryServer(storyPath, { port: 0, seed: 7 });
+  const { port } = await server.listen();
+  base = `http://127.0.0.1:${port}`;
+});
+
+after(async () => {
+  await server.close();
+  delete process.env.CALLIGRAPHER_SAVE_DIR;
+  fs.rmSync(dir, { recursive: true, force: true });
+});
+
+async function call(method: string, route: string, body?: unknown, headers: Record<string, string> = {}) {
+  const response = await fetch(base + route, {
+    method,
+    headers: { 'Content-Type': 'application/json', ...headers },
+    body: body === undefined ? undefined : JSON.stringify(body),
+  });
+  const text = await response.text();
+  return { status: response.status, headers: response.headers, body: text ? JSON.parse(text) : null };
+}
+
+test('a session plays to a choice, takes it and reports the new state', async () => {
+  const started = await call('POST', '/sessions');
+  assert.equal(started.status, 201);
+  assert.deepEqual(started.body.lines.map((line: { text: string }) => line.text.trim()), ['A gate.']);
+  assert.deepEqual(started.body.choices.map((choice: { text: string }) => choice.text), ['Open it', 'Walk away']);
+  assert.equal(started.body.seed, 7);
+
+  const chosen = await call('POST', `/sessions/${started.body.session}/choose`, { index: 0 });
+  assert.equal(chosen.status, 200);
+  assert.deepEqual(chosen.body.lines.map((line: { text: string }) => line.text.trim()), ['A yard.']);
+  assert.equal(chosen.body.ended, true);
+  assert.equal(chosen.body.turn, 1);
+
+  const story = await call('GET', '/story');
+  assert.equal(story.body.title, 'The Gate');
+});
+
+test('bad requests are answered with a status and a message', async () => {
+  const { body } = await call('POST', '/sessions');
+  const session = body.session;
+
+  const badIndex = await call('POST', `/sessions/${session}/choose`, { index: 5 });
+  assert.equal(badIndex.status, 400);
+  assert.equal(badIndex.body.error, '"index" must be a choice from 0 to 1');
+
+  assert.equal((await call('POST', '/sessions', { seed: 1.5 })).status, 400);
+  assert.equal((await call('GET', '/sessions/nope')).status, 404);
+  assert.equal((await call('PUT', `/sessions/${session}`)).status, 405);
+  assert.equal((await call('POST', `/sessions/${session}/load`, { slot: 'missing' })).status, 404);
+
+  assert.equal((await call('DELETE', `/sessions/${session}`)).status, 204);
+  assert.equal((await call('GET', `/sessions/${session}`)).status, 404);
+});
+
+test('a save made in one session loads into another', async () => {
+  const first = (await call('POST', '/sessions')).body.session;
+  await call('POST', `/sessions/${first}/choose`, { index: 0 });
+  const saved = await call('POST', `/sessions/${first}/save`, { slot: 'yard' });
+  assert.equal(saved.body.slot, 'yard');
+
+  const second = (await call('POST', '/sessions')).body.session;
+  const loaded = await call('POST', `/sessions/${second}/load`, { slot: 'yard' });
+  assert.equal(loaded.status, 200);
+  assert.equal(loaded.body.turn, 1);
+  assert.equal(loaded.body.ended, true);
+});
+
+test('only localhost origins may call the API', async () => {
+  const local = await call('GET', '/story', undefined, { Origin: 'http://localhost:5173' });
+  assert.equal(local.status, 200);
+  assert.equal(local.headers.get('access-control-allow-origin'), 'http://localhost:5173');
+
+  const remote = await call('GET', '/story', undefined, { Origin: 'https://example.com' });
+  assert.equal(remote.status, 403);
+  assert.equal(remote.headers.get('access-control-allow-origin'), null);
+});
+
+test('--origin allows exactly one origin', async () => {
+  const strict = new StoryServer(storyPath, { port: 0, origin: 'http://localhost:5173/' });
+  const { port } = await strict.listen();
+  try {
+    const headers = (origin: string) => ({ headers: { Origin: origin } });
+    assert.equal((await fetch(`http://127.0.0.1:${port}/story`, headers('http://localhost:5173'))).status, 200);
+    assert.equal((await fetch(`http://127.0.0.1:${port}/story`, headers('http://localhost:3000'))).status, 403);
+  } finally {
+    await strict.close();
+  }
+});
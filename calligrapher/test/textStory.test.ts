@@ -0,0 +1,93 @@
+import { after, test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { TextValue, enterSection, evaluate, parseExpression, parseTextStory } from '../src/textStory';
+
+const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'calligrapher-text-'));
+after(() => fs.rmSync(dir, { recursive: true, force: true }));
+
+function write(name: string, content: string): string {
+  const file = path.join(dir, name);
+  fs.writeFileSync(file, content);
+  return file;
+}
+
+const calc = (source: string, variables: Record<string, TextValue> = {}) => evaluate(parseExpression(source), variables);
+
+test('expressions follow ink precedence and integer division', () => {
+  assert.equal(calc('1 + 2 * 3'), 7);
+  assert.equal(calc('(1 + 2) * 3'), 9);
+  assert.equal(calc('7 / 2'), 3);
+  assert.equal(calc('7 / 2.5'), 2.8);
+  assert.equal(calc('"gold: " + 5'), 'gold: 5');
+  assert.equal(calc('!has_key && missing > 0', { has_key: true }), false);
+  assert.throws(() => parseExpression('1 +'), /Expected a value/);
+});
+
+test('sections run assignments, interpolate text and filter choices', () => {
+  write('shop.txt', '=== shop ===\nThe shop is shut.\n* Leave -> END\n');
+  const file = write('story.txt', [
+    'VAR gold = 5',
+    'INCLUDE shop.txt',
+    '',
+    '=== start ===',
+    '// the first room',
+    '~ gold = gold + 5',
+    'You have {gold} gold.',
+    '* [Search] -> start',
+    '* {gold >= 10} [Buy the map for {gold} gold] -> shop',
+    '* {gold >= 100} [Buy the castle] -> shop',
+  ].join('\n'));
+
+  const { story, diagnostics } = parseTextStory(file);
+  assert.deepEqual(diagnostics, []);
+  assert.deepEqual(Object.keys(story.sections).sort(), ['shop', 'start']);
+
+  const variables = { ...story.variables };
+  assert.deepEqual(enterSection(story, story.start, variables), {
+    lines: ['You have 10 gold.'],
+    choices: [
+      { text: 'Search', target: 'start' },
+      { text: 'Buy the map for 10 gold', target: 'shop' },
+    ],
+  });
+  assert.equal(variables.gold, 10);
+});
+
+test('section names may have hyphens, as older stories used', () => {
+  const file = write('hyphens.txt', [
+    '=== start ===',
+    'A hillside.',
+    '* Enter -> cave-entrance',
+    '',
+    '=== cave-entrance ===',
+    'The cave mouth yawns.',
+  ].join('\n'));
+
+  const { story, diagnostics } = parseTextStory(file);
+  assert.deepEqual(diagnostics, []);
+  assert.deepEqual(enterSection(story, 'start', {}).choices, [{ text: 'Enter', target: 'cave-entrance' }]);
+  assert.deepEqual(enterSection(story, 'cave-entrance', {}).lines, ['The cave mouth yawns.']);
+});
+
+test('every mistake is reported at once, with where it is', () => {
+  const file = write('broken.txt', [
+    '=== start ===',
+    'You have {coins} coins.',
+    '* [Go] -> nowhere',
+    '* {gold >} [Pay] -> start',
+    '=== start ===',
+    'INCLUDE missing.txt',
+  ].join('\n'));
+
+  const found = parseTextStory(file).diagnostics.map(d => `${d.line}:${d.column} ${d.message}`);
+  assert.deepEqual(found.sort(), [
+    '2:11 Unknown variable "coins" (declare it with VAR coins = ...)',
+    `3:11 Choice leads to missing section "nowhere"`,
+    `4:10 Expected a value in "gold >"`,
+    `5:1 Section "start" is already defined at ${file}:1`,
+    '6:9 Included file not found: missing.txt',
+  ].sort());
+});
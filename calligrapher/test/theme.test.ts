@@ -0,0 +1,59 @@
+import { after, test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { DEFAULT_THEME, disableColor, loadTheme, parseTag, renderText, resolveStyle, tagValue } from '../src/theme';
+
+disableColor();
+
+const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'calligrapher-theme-'));
+after(() => fs.rmSync(dir, { recursive: true, force: true }));
+
+function themeFile(name: string, content: string): string {
+  const file = path.join(dir, name);
+  fs.writeFileSync(file, content);
+  return file;
+}
+
+test('tags split into a name and an optional value', () => {
+  assert.deepEqual(parseTag(' speaker: Aria '), { name: 'speaker', value: 'Aria' });
+  assert.deepEqual(parseTag('scene'), { name: 'scene' });
+  assert.equal(tagValue(['mood: calm', 'Title: The Tower'], 'title'), 'The Tower');
+});
+
+test('a line gets only its highest-priority built-in style', () => {
+  assert.equal(renderText('The Keep\n', ['dialog', 'scene'], DEFAULT_THEME), '\n━━━ The Keep ━━━\n');
+  assert.equal(renderText('Hello', ['dialog'], DEFAULT_THEME), '  "Hello"');
+  assert.equal(renderText('Plain', [], DEFAULT_THEME), 'Plain');
+});
+
+test('a YAML theme adds value styles on top of the defaults', () => {
+  const theme = loadTheme(themeFile('theme.yaml', [
+    'tags:',
+    '  speaker: { label: "{value}: ", labelColor: magenta }',
+    'values:',
+    '  speaker:',
+    '    Aria: { icon: star }',
+  ].join('\n')));
+
+  assert.equal(theme.tags.scene, DEFAULT_THEME.tags.scene);
+  assert.deepEqual(resolveStyle(['speaker: Aria'], theme), {
+    color: 'white',
+    label: 'Aria: ',
+    labelColor: 'magenta',
+    icon: 'star',
+    prefix: undefined,
+    suffix: undefined,
+  });
+  assert.equal(renderText('Hi.', ['speaker: Aria'], theme), 'Aria: ★ Hi.');
+  assert.equal(renderText('Hi.', ['speaker: Bo'], theme), 'Bo: Hi.');
+});
+
+test('mistakes in a theme are reported with where they are', () => {
+  assert.throws(() => loadTheme(themeFile('bad-color.json', '{ "tags": { "scene": { "color": "cyna" } } }')),
+    /bad-color\.json: tags\.scene: unknown color or style "cyna"/);
+  assert.throws(() => loadTheme(themeFile('bad-indent.json', '{ "text": { "indent": -1 } }')),
+    /bad-indent\.json: text\.indent must be a whole number/);
+  assert.throws(() => loadTheme(themeFile('list.json', '[]')), /expected an object with "text", "tags" and\/or "values"/);
+});
@@ -0,0 +1,78 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { Story } from 'inkjs';
+import { Compiler } from 'inkjs/compiler/Compiler';
+import { StoryRunner } from '../src/runner';
+import { describeEvent, diffTranscripts, replayTranscript } from '../src/transcript';
+
+const compile = (source: string) => new Compiler(source).Compile().ToJson()!;
+
+const STORY = `
+VAR lamp = false
+The cave is dark. #mood: tense
+* [Light the lamp]
+  ~ lamp = true
+  It flickers {~red|green|blue}.
+* [Feel your way]
+  You stumble.
+-
+-> END
+`;
+
+function record(storyJson: string, seed: number, choices: number[]) {
+  const runner = new StoryRunner(storyJson, { seed });
+  const recorder = runner.record();
+  runner.continueMaximally();
+  for (const index of choices) {
+    runner.choose(index);
+    runner.continueMaximally();
+  }
+  return recorder.toTranscript('story.ink', runner.seed, 'story.transcript.json');
+}
+
+test('a golden transcript matches a replay of the same build', () => {
+  const transcript = record(compile(STORY), 7, [0]);
+  const [intro, choices, chose, variable, text, ...rest] = transcript.events.map(describeEvent);
+  assert.deepEqual([intro, choices, chose, variable], [
+    'The cave is dark.  # mood: tense',
+    '[choices] 1. Light the lamp | 2. Feel your way',
+    '[chose] 1. Light the lamp',
+    '[var] lamp = true',
+  ]);
+  assert.deepEqual(rest, []);
+  assert.match(text, /^It flickers (red|green|blue)\.$/);
+
+  const actual = replayTranscript(new Story(compile(STORY)), transcript);
+  assert.equal(diffTranscripts(transcript.events, actual), null);
+});
+
+test('an edited line is reported with what came before it', () => {
+  const transcript = record(compile(STORY), 7, [1]);
+  const actual = replayTranscript(new Story(compile(STORY.replace('You stumble.', 'You trip.'))), transcript);
+
+  const diff = diffTranscripts(transcript.events, actual);
+  assert.ok(diff);
+  assert.equal(describeEvent(diff.expected), 'You stumble.');
+  assert.equal(describeEvent(diff.actual), 'You trip.');
+  assert.equal(describeEvent(diff.context[diff.context.length - 1]), '[chose] 2. Feel your way');
+});
+
+test('a choice that no longer exists ends the replay there', () => {
+  const transcript = record(compile(STORY), 7, [1]);
+  const actual = replayTranscript(new Story(compile(STORY.replace('* [Feel your way]\n  You stumble.\n', ''))), transcript);
+
+  const diff = diffTranscripts(transcript.events, actual);
+  assert.ok(diff);
+  assert.equal(describeEvent(diff.expected), '[choices] 1. Light the lamp | 2. Feel your way');
+  assert.equal(describeEvent(diff.actual), '(end of transcript)');
+});
+
+test('undo rewinds what is being recorded', () => {
+  const runner = new StoryRunner(compile(STORY), { seed: 7 });
+  const recorder = runner.record();
+  runner.continueMaximally();
+  runner.choose(0);
+  runner.continueMaximally();
+  runner.undo();
+  assert.deepEqual(recorder.events.map(describeEvent), ['The cave is dark.  # mood: tense']);
+});
@@ -0,0 +1,76 @@
+import { after, test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { StoryWatcher, collectInkDependencies } from '../src/watcher';
+
+const dirs: string[] = [];
+after(() => dirs.forEach(dir => fs.rmSync(dir, { recursive: true, force: true })));
+
+function storyDir(): string {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'calligrapher-watch-'));
+  dirs.push(dir);
+  fs.mkdirSync(path.join(dir, 'parts'));
+  fs.writeFileSync(path.join(dir, 'main.ink'), 'INCLUDE parts/a.ink\nHello.\n');
+  fs.writeFileSync(path.join(dir, 'parts', 'a.ink'), 'INCLUDE parts/b.ink\n');
+  fs.writeFileSync(path.join(dir, 'parts', 'b.ink'), 'INCLUDE main.ink\n');
+  return dir;
+}
+
+const wait = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+test('INCLUDEs are followed from the root directory, once each', () => {
+  const dir = storyDir();
+  const files = collectInkDependencies(path.join(dir, 'main.ink')).map(file => path.relative(dir, file)).sort();
+  assert.deepEqual(files, ['main.ink', path.join('parts', 'a.ink'), path.join('parts', 'b.ink')]);
+});
+
+test('a burst of saves is one rebuild', async () => {
+  const dir = storyDir();
+  const changed: string[] = [];
+  const watcher = new StoryWatcher(path.join(dir, 'main.ink'), { debounceMs: 50, onChange: file => { changed.push(file); } });
+  watcher.start();
+  try {
+    assert.equal(watcher.files.length, 3);
+    fs.appendFileSync(path.join(dir, 'parts', 'b.ink'), 'One.\n');
+    fs.appendFileSync(path.join(dir, 'parts', 'b.ink'), 'Two.\n');
+    await wait(300);
+    assert.deepEqual(changed, [path.join(dir, 'parts', 'b.ink')]);
+  } finally {
+    watcher.close();
+  }
+});
+
+test('closing during a rebuild leaves nothing watched', async () => {
+  const dir = storyDir();
+  let finish!: () => void;
+  const building = new Promise<void>(resolve => { finish = resolve; });
+  const watcher = new StoryWatcher(path.join(dir, 'main.ink'), { debounceMs: 10, onChange: () => building });
+  watcher.start();
+
+  fs.appendFileSync(path.join(dir, 'main.ink'), 'More.\n');
+  await wait(100);
+  watcher.close();
+  finish();
+  await wait(20);
+  assert.deepEqual(watcher.files, []);
+});
+
+test('onChange failures go to onError', async () => {
+  const dir = storyDir();
+  const errors: string[] = [];
+  const watcher = new StoryWatcher(path.join(dir, 'main.ink'), {
+    debounceMs: 10,
+    onChange: async () => { throw new Error('broken build'); },
+    onError: error => { errors.push(error.message); },
+  });
+  watcher.start();
+  try {
+    fs.appendFileSync(path.join(dir, 'main.ink'), 'More.\n');
+    await wait(150);
+    assert.deepEqual(errors, ['broken build']);
+  } finally {
+    watcher.close();
+  }
+});
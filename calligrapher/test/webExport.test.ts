@@ -0,0 +1,49 @@
+import { after, test } from 'node:test';
+import * as assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { exportWeb } from '../src/webExport';
+
+const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'calligrapher-web-'));
+after(() => fs.rmSync(dir, { recursive: true, force: true }));
+
+function exportStory(source: string, fileName = 'story.ink') {
+  const file = path.join(dir, fileName);
+  fs.writeFileSync(file, source);
+  const result = exportWeb(file, path.join(dir, 'out'));
+  return { ...result, html: fs.readFileSync(result.file, 'utf-8') };
+}
+
+test('the page inlines the story, runtime and player under the story title', () => {
+  const { html, title, bytes, warnings } = exportStory('# title: The <Lighthouse>\nThe lamp is lit.\n-> END\n');
+
+  assert.equal(title, 'The <Lighthouse>');
+  assert.equal(bytes, Buffer.byteLength(html));
+  assert.deepEqual(warnings, []);
+  assert.match(html, /<title>The &lt;Lighthouse&gt;<\/title>/);
+  assert.match(html, /The lamp is lit/);
+  assert.match(html, /"storyId":"story-The-Lighthouse-"/);
+  assert.doesNotMatch(html, /\{\{\w+\}\}/);
+});
+
+test('stories that share a title keep their saves apart', () => {
+  const storyId = (html: string) => html.match(/"storyId":"([^"]*)"/)?.[1];
+  const first = exportStory('# title: Lost\nA forest.\n-> END\n', 'forest.ink');
+  const second = exportStory('# title: Lost\nA desert.\n-> END\n', 'desert.ink');
+  assert.equal(storyId(first.html), 'forest-Lost');
+  assert.equal(storyId(second.html), 'desert-Lost');
+});
+
+test('story text cannot close the script it is inlined in', () => {
+  const { html } = exportStory('Type </script><b>here</b>.\n-> END\n');
+  const scripts = html.match(/<\/script>/gi) ?? [];
+  const opened = html.match(/<script\b/gi) ?? [];
+  assert.equal(scripts.length, opened.length);
+});
+
+test('an unbound EXTERNAL is a warning, since plugins do not run in the browser', () => {
+  const { warnings } = exportStory('EXTERNAL roll(sides)\nYou roll {roll(6)}.\n-> END\n');
+  assert.equal(warnings.length, 1);
+  assert.match(warnings[0], /roll.*The web build stops if it is called\./s);
+});
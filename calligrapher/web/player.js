@@ -0,0 +1,365 @@
+// The player for `calligrapher export --web`. It is inlined into the
+// exported page after the inkjs runtime, along with the story and its config.
+(function () {
+  'use strict';
+
+  const config = JSON.parse(document.getElementById('calligrapher-config').textContent);
+  const storyJson = document.getElementById('calligrapher-story').textContent;
+
+  const output = document.getElementById('output');
+  const choicesElement = document.getElementById('choices');
+  const notice = document.getElementById('notice');
+
+  const SAVE_PREFIX = `calligrapher:${config.storyId}:`;
+  const AUTOSAVE_SLOT = 'autosave';
+  const QUICKSAVE_SLOT = 'quicksave';
+  // Lines kept to show again after loading a save.
+  const SHOWN_LIMIT = 200;
+
+  let story = null;
+  let choiceHistory = [];
+  let shown = [];
+  // Bumped on restart and load so an interrupted pause or wait stops playing.
+  let run = 0;
+  // Set once the choices are on screen, so a key pressed during a pause can't choose early.
+  let awaitingChoice = false;
+
+  // Same layering as the CLI's theme: plain text, then each tag by name, then by value.
+  function fill(template, tag) {
+    return template === undefined ? undefined : template.replace(/\{tag\}/g, tag.name).replace(/\{value\}/g, tag.value ?? '');
+  }
+
+  function parseTag(raw) {
+    const separator = raw.indexOf(':');
+    return separator < 0
+      ? { name: raw.trim() }
+      : { name: raw.slice(0, separator).trim(), value: raw.slice(separator + 1).trim() };
+  }
+
+  function resolveStyle(tags) {
+    let style = { ...config.theme.text };
+    const parsed = tags.map(parseTag);
+    const priorityOf = tag => (config.theme.tags[tag.name] || {}).priority;
+    const top = Math.max(-Infinity, ...parsed.map(tag => priorityOf(tag) ?? -Infinity));
+    for (const tag of parsed) {
+      if (priorityOf(tag) !== undefined && priorityOf(tag) < top) continue;
+      const byValue = tag.value !== undefined ? (config.theme.values[tag.name] || {})[tag.value] : undefined;
+      for (const layer of [config.theme.tags[tag.name], byValue]) {
+        if (!layer) continue;
+        style = {
+          ...style,
+          ...layer,
+          prefix: fill(layer.prefix, tag) ?? style.prefix,
+          suffix: fill(layer.suffix, tag) ?? style.suffix,
+          label: fill(layer.label, tag) ?? style.label,
+        };
+      }
+    }
+    return style;
+  }
+
+  function presentation(tags) {
+    const result = { clear: false, wait: false, pause: 0 };
+    for (const tag of tags.map(parseTag)) {
+      const name = tag.name.toLowerCase();
+      if (name === 'clear') result.clear = true;
+      if (name === 'wait') result.wait = true;
+      if (name === 'pause' && Number(tag.value) > 0) result.pause = Number(tag.value);
+    }
+    return result;
+  }
+
+  function renderLine(line) {
+    const text = line.text.replace(/\n$/, '');
+    if (!text.trim()) return;
+
+    if (line.chosen) {
+      const element = document.createElement('p');
+      element.className = 'line chosen';
+      element.textContent = `> ${text}`;
+      output.appendChild(element);
+      return;
+    }
+
+    const style = resolveStyle(line.tags);
+    const element = document.createElement('p');
+    element.className = 'line';
+    Object.assign(element.style, style.css || {});
+    // A margin of one in the theme is one blank line in the terminal.
+    if (style.marginTop) element.style.marginTop = `${style.marginTop * 1.6}em`;
+    if (style.marginBottom) element.style.marginBottom = `${0.6 + style.marginBottom * 1.6}em`;
+    if (style.indent) element.style.paddingLeft = `${style.indent}ch`;
+    if (style.box) {
+      element.classList.add('boxed');
+      if (style.boxColor) element.style.borderColor = style.boxColor;
+    }
+
+    if (style.label) {
+      const label = document.createElement('span');
+      label.className = 'label';
+      Object.assign(label.style, style.labelCss || style.css || {});
+      label.textContent = style.label;
+      element.appendChild(label);
+    }
+    const icon = style.icon ? `${style.icon} ` : '';
+    element.appendChild(document.createTextNode(`${icon}${style.prefix ?? ''}${text}${style.suffix ?? ''}`));
+    output.appendChild(element);
+  }
+
+  function showLine(line) {
+    renderLine(line);
+    shown.push(line);
+    if (shown.length > SHOWN_LIMIT) shown.shift();
+  }
+
+  function clearOutput() {
+    output.textContent = '';
+    choicesElement.textContent = '';
+    shown = [];
+  }
+
+  function showNotice(message) {
+    notice.textContent = message;
+    notice.hidden = !message;
+  }
+
+  function showError(message) {
+    const element = document.createElement('p');
+    element.className = 'line error';
+    element.textContent = `✖ ${message}`;
+    output.appendChild(element);
+  }
+
+  /**
+   * Resolves after `seconds`, or sooner on a click or keypress. The listeners
+   * go on after the current event has finished, so the click or key that
+   * took a choice doesn't also end a pause right after it.
+   */
+  function pause(seconds) {
+    return new Promise(resolve => {
+      const done = () => {
+        clearTimeout(timer);
+        clearTimeout(listen);
+        document.removeEventListener('click', done);
+        document.removeEventListener('keydown', done);
+        resolve();
+      };
+      const timer = setTimeout(done, seconds * 1000);
+      const listen = setTimeout(() => {
+        document.addEventListener('click', done);
+        document.addEventListener('keydown', done);
+      }, 0);
+    });
+  }
+
+  function waitForContinue() {
+    return new Promise(resolve => {
+      const button = document.createElement('button');
+      button.type = 'button';
+      button.textContent = 'Continue';
+      button.addEventListener('click', () => {
+        choicesElement.textContent = '';
+        resolve();
+      });
+      choicesElement.appendChild(button);
+      button.focus();
+    });
+  }
+
+  function createStory() {
+    const created = new inkjs.Story(storyJson);
+    created.allowExternalFunctionFallbacks = true;
+    created.onError = message => showError(message);
+    return created;
+  }
+
+  /** Play on to the next choice point, honouring #clear, #pause and #wait. */
+  async function advance() {
+    const current = run;
+    awaitingChoice = false;
+    choicesElement.textContent = '';
+
+    while (story.canContinue) {
+      const text = story.Continue() || '';
+      const tags = story.currentTags || [];
+      const timing = presentation(tags);
+
+      if (timing.clear) clearOutput();
+      showLine({ text, tags });
+      if (timing.pause) await pause(timing.pause);
+      if (timing.wait && story.canContinue) await waitForContinue();
+      if (current !== run) return;
+    }
+
+    showChoices();
+  }
+
+  function showChoices() {
+    choicesElement.textContent = '';
+
+    if (story.currentChoices.length === 0) {
+      const end = document.createElement('p');
+      end.className = 'end';
+      end.textContent = '🏁 The End';
+      choicesElement.appendChild(end);
+      return;
+    }
+
+    story.currentChoices.forEach((choice, index) => {
+      const button = document.createElement('button');
+      button.type = 'button';
+      const number = document.createElement('span');
+      number.className = 'number';
+      number.textContent = `${index + 1}.`;
+      button.appendChild(number);
+      button.appendChild(document.createTextNode(choice.text));
+      button.addEventListener('click', () => choose(index));
+      choicesElement.appendChild(button);
+    });
+    choicesElement.querySelector('button').focus();
+    awaitingChoice = true;
+  }
+
+  function choose(index) {
+    const choice = story.currentChoices[index];
+    if (!awaitingChoice || !choice) return;
+
+    showLine({ text: choice.text, tags: [], chosen: true });
+    story.ChooseChoiceIndex(index);
+    choiceHistory.push(index);
+    writeSave(AUTOSAVE_SLOT);
+    advance();
+  }
+
+  // Saves live in localStorage under the story's id, so a new export of the
+  // same story finds them. A save whose state no longer fits is rebuilt by
+  // replaying its choices, as the CLI does.
+  function storage() {
+    try {
+      return window.localStorage;
+    } catch {
+      return null;
+    }
+  }
+
+  function writeSave(slot) {
+    const store = storage();
+    if (!store) return false;
+    try {
+      store.setItem(SAVE_PREFIX + slot, JSON.stringify({
+        version: 1,
+        storyHash: config.storyHash,
+        savedAt: new Date().toISOString(),
+        state: story.state.toJson(),
+        choices: choiceHistory,
+        lines: shown,
+      }));
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  function readSave(slot) {
+    const store = storage();
+    try {
+      const save = store && JSON.parse(store.getItem(SAVE_PREFIX + slot) || 'null');
+      return save && typeof save.state === 'string' ? save : null;
+    } catch {
+      return null;
+    }
+  }
+
+  // LoadJson rejects a position that no longer exists but restores pending
+  // choices as they were, so check each still leads somewhere real.
+  function choicesResolve(target) {
+    return target.currentChoices.every(choice => {
+      if (!choice.targetPath) return false;
+      try {
+        const result = target.ContentAtPath(choice.targetPath);
+        return !result.approximate && result.obj !== null;
+      } catch {
+        return false;
+      }
+    });
+  }
+
+  function replayChoices(target, choices) {
+    let replayed = 0;
+    for (const index of choices) {
+      while (target.canContinue) target.Continue();
+      if (index < 0 || index >= target.currentChoices.length) break;
+      target.ChooseChoiceIndex(index);
+      replayed++;
+    }
+    return replayed;
+  }
+
+  /** Load a save and play on from it. Returns what to tell the player. */
+  function restore(save) {
+    run++;
+    story = createStory();
+    choiceHistory = save.choices || [];
+
+    let message = 'Save loaded.';
+    try {
+      story.state.LoadJson(save.state);
+      if (!choicesResolve(story)) throw new Error('Saved choices no longer exist');
+    } catch {
+      story = createStory();
+      const replayed = replayChoices(story, choiceHistory);
+      message = replayed === choiceHistory.length
+        ? 'The story has changed since this save; your choices were replayed.'
+        : `The story has changed since this save; ${replayed} of ${choiceHistory.length} choices still exist.`;
+      choiceHistory = choiceHistory.slice(0, replayed);
+    }
+    if (save.storyHash !== config.storyHash && message === 'Save loaded.') {
+      message = 'Save loaded. The story has changed since it was saved.';
+    }
+
+    clearOutput();
+    (save.lines || []).forEach(showLine);
+    advance();
+    return message;
+  }
+
+  function restart() {
+    run++;
+    const store = storage();
+    if (store) store.removeItem(SAVE_PREFIX + AUTOSAVE_SLOT);
+    story = createStory();
+    choiceHistory = [];
+    clearOutput();
+    showNotice('');
+    advance();
+  }
+
+  document.getElementById('save-button').addEventListener('click', () => {
+    showNotice(writeSave(QUICKSAVE_SLOT) ? 'Saved in this browser.' : 'This browser is not letting the page save.');
+  });
+  document.getElementById('load-button').addEventListener('click', () => {
+    const save = readSave(QUICKSAVE_SLOT);
+    if (save) {
+      showNotice(restore(save));
+    } else {
+      showNotice('No save yet.');
+    }
+  });
+  document.getElementById('restart-button').addEventListener('click', restart);
+
+  // Number keys pick choices.
+  document.addEventListener('keydown', event => {
+    if (event.altKey || event.ctrlKey || event.metaKey || !/^[1-9]$/.test(event.key)) return;
+    if (story && awaitingChoice) {
+      choose(Number(event.key) - 1);
+    }
+  });
+
+  const autosave = readSave(AUTOSAVE_SLOT);
+  if (autosave) {
+    const message = restore(autosave);
+    showNotice(message === 'Save loaded.' ? 'Picked up where you left off. Restart to begin again.' : message);
+  } else {
+    restart();
+  }
+})();
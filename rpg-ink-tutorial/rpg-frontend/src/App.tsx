@@ -1,34 +1,46 @@
-import { useState } from 'react'
-import reactLogo from './assets/react.svg'
-import viteLogo from '/vite.svg'
+import { Suspense, lazy } from 'react'
+import { Link, Route, Routes, useLocation } from 'react-router-dom'
+import { AdventureSelector } from './components/AdventureSelector'
+import { ErrorBoundary } from './components/ErrorBoundary'
 import './App.css'
 
+// The player and the inkjs runtime load with the first adventure opened.
+const AdventurePage = lazy(() =>
+  import('./components/AdventurePage').then(module => ({ default: module.AdventurePage })),
+)
+
+function NotFound() {
+  return (
+    <div className="error-container" role="alert">
+      <h2>Page not found</h2>
+      <Link to="/">Choose an adventure</Link>
+    </div>
+  )
+}
+
 function App() {
-  const [count, setCount] = useState(0)
+  const location = useLocation()
 
   return (
-    <>
-      <div>
-        <a href="https://vite.dev" target="_blank">
-          <img src={viteLogo} className="logo" alt="Vite logo" />
-        </a>
-        <a href="https://react.dev" target="_blank">
-          <img src={reactLogo} className="logo react" alt="React logo" />
-        </a>
-      </div>
-      <h1>Vite + React</h1>
-      <div className="card">
-        <button onClick={() => setCount((count) => count + 1)}>
-          count is {count}
-        </button>
-        <p>
-          Edit <code>src/App.tsx</code> and save to test HMR
-        </p>
-      </div>
-      <p className="read-the-docs">
-        Click on the Vite and React logos to learn more
-      </p>
-    </>
+    <div className="App">
+      <header>
+        <h1>
+          <Link to="/">Interactive RPG</Link>
+        </h1>
+      </header>
+      <main>
+        {/* Keyed by path, so an error on one page is cleared by leaving it. */}
+        <ErrorBoundary key={location.pathname}>
+          <Suspense fallback={<p className="story-status" role="status">Loading…</p>}>
+            <Routes>
+              <Route path="/" element={<AdventureSelector />} />
+              <Route path="/adventure/:id" element={<AdventurePage />} />
+              <Route path="*" element={<NotFound />} />
+            </Routes>
+          </Suspense>
+        </ErrorBoundary>
+      </main>
+    </div>
   )
 }
 
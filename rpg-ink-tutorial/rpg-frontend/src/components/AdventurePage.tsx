@@ -0,0 +1,38 @@
+import { Link, useParams } from 'react-router-dom'
+import { useAdventureList } from '../hooks/useAdventureList'
+import { formatProblem } from '../utils/manifest'
+import { StoryPlayer } from './StoryPlayer'
+
+/** `/adventure/:id`: finds the adventure in the manifest and plays its story. */
+export function AdventurePage() {
+  const { id } = useParams()
+  const { list, error } = useAdventureList()
+
+  if (error) throw error
+
+  const adventure = list?.adventures.find(adventure => adventure.id === id)
+  const problem = list?.problems.find(problem => problem.id === id)
+
+  return (
+    <div className="adventure-page">
+      <nav>
+        <Link to="/">← All adventures</Link>
+      </nav>
+      {!list ? (
+        <p className="story-status" role="status">Loading adventure…</p>
+      ) : adventure ? (
+        // Keyed so moving to another adventure starts its story afresh.
+        <StoryPlayer key={adventure.id} storyUrl={adventure.storyUrl} />
+      ) : (
+        <div className="error-container" role="alert">
+          <h2>Adventure not found</h2>
+          <p>
+            {problem
+              ? `"${id}" is in the manifest but can't be played. ${formatProblem(problem)}`
+              : `There is no adventure called "${id}" in the manifest.`}
+          </p>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,54 @@
+import { Link } from 'react-router-dom'
+import { useAdventureList } from '../hooks/useAdventureList'
+import { formatProblem } from '../utils/manifest'
+
+/**
+ * The adventure catalog from `adventures/index.json`. Broken manifest entries
+ * are listed with what is wrong with them rather than silently dropped.
+ */
+export function AdventureSelector() {
+  const { list, error } = useAdventureList()
+
+  if (error) throw error
+  if (!list) {
+    return <p className="story-status" role="status">Loading adventures…</p>
+  }
+
+  const { adventures, problems } = list
+  return (
+    <div className="adventure-selector">
+      <h2>Choose Your Adventure</h2>
+
+      {problems.length > 0 && (
+        <section className="manifest-problems" role="alert">
+          <h3>
+            {problems.length === 1 ? 'One adventure' : `${problems.length} adventures`} in the manifest could not be
+            listed
+          </h3>
+          <ul>
+            {problems.map(problem => (
+              <li key={problem.entry}>{formatProblem(problem)}</li>
+            ))}
+          </ul>
+        </section>
+      )}
+
+      {adventures.length === 0 ? (
+        <p className="story-status">No adventures yet. Add one to public/adventures/index.json.</p>
+      ) : (
+        <ul className="adventure-grid">
+          {adventures.map(adventure => (
+            <li key={adventure.id}>
+              <Link className="adventure-card" to={`/adventure/${adventure.id}`}>
+                {adventure.coverUrl && <img className="adventure-cover" src={adventure.coverUrl} alt="" />}
+                <h3>{adventure.title}</h3>
+                <span className={`difficulty difficulty-${adventure.difficulty}`}>{adventure.difficulty}</span>
+                <p>{adventure.description}</p>
+              </Link>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,72 @@
+import { useEffect, useRef } from 'react'
+import type { KeyboardEvent } from 'react'
+import type { StoryChoice } from '../types/story'
+import { tagClassNames } from '../utils/tags'
+
+const FOCUS_STEPS: Record<string, number> = { ArrowDown: 1, ArrowRight: 1, ArrowUp: -1, ArrowLeft: -1 }
+
+interface ChoiceListProps {
+  choices: StoryChoice[]
+  onChoose: (index: number) => void
+}
+
+/**
+ * The choices on offer. The first one takes focus when they appear; arrow
+ * keys move between them, Enter or Space picks one, and number keys 1-9
+ * pick straight away.
+ */
+export function ChoiceList({ choices, onChoose }: ChoiceListProps) {
+  const buttonsRef = useRef<(HTMLButtonElement | null)[]>([])
+
+  useEffect(() => {
+    buttonsRef.current[0]?.focus()
+  }, [choices])
+
+  useEffect(() => {
+    const onKeyDown = (event: globalThis.KeyboardEvent) => {
+      if (event.altKey || event.ctrlKey || event.metaKey || !/^[1-9]$/.test(event.key)) return
+      const target = event.target as HTMLElement | null
+      if (target?.closest('input, textarea, select, [contenteditable="true"]')) return
+      const choice = choices[Number(event.key) - 1]
+      if (choice) {
+        event.preventDefault()
+        onChoose(choice.index)
+      }
+    }
+    document.addEventListener('keydown', onKeyDown)
+    return () => document.removeEventListener('keydown', onKeyDown)
+  }, [choices, onChoose])
+
+  const moveFocus = (event: KeyboardEvent<HTMLButtonElement>, position: number) => {
+    const step = FOCUS_STEPS[event.key]
+    const last = choices.length - 1
+    const next = step ? position + step : event.key === 'Home' ? 0 : event.key === 'End' ? last : null
+    if (next === null) return
+    event.preventDefault()
+    buttonsRef.current[Math.min(Math.max(next, 0), last)]?.focus()
+  }
+
+  if (choices.length === 0) return null
+
+  return (
+    <ol className="choice-list" aria-label="Choices">
+      {choices.map((choice, position) => (
+        <li key={choice.index}>
+          <button
+            type="button"
+            ref={element => {
+              buttonsRef.current[position] = element
+            }}
+            className={['choice', ...tagClassNames(choice.tags)].join(' ')}
+            onClick={() => onChoose(choice.index)}
+            onKeyDown={event => moveFocus(event, position)}
+            aria-keyshortcuts={position < 9 ? String(position + 1) : undefined}
+          >
+            <span className="choice-number" aria-hidden="true">{position + 1}.</span>
+            {choice.text}
+          </button>
+        </li>
+      ))}
+    </ol>
+  )
+}
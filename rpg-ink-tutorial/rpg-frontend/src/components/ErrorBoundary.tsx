@@ -0,0 +1,45 @@
+import { Component } from 'react'
+import type { ErrorInfo, ReactNode } from 'react'
+
+interface ErrorBoundaryProps {
+  children: ReactNode
+}
+
+interface ErrorBoundaryState {
+  error: Error | null
+}
+
+/**
+ * Shows what went wrong when a story fails to load or run, instead of a blank
+ * page. "Try again" mounts the children afresh, which reloads the story.
+ */
+export class ErrorBoundary extends Component<ErrorBoundaryProps, ErrorBoundaryState> {
+  state: ErrorBoundaryState = { error: null }
+
+  static getDerivedStateFromError(error: Error): ErrorBoundaryState {
+    return { error }
+  }
+
+  componentDidCatch(error: Error, info: ErrorInfo) {
+    console.error('Story error:', error, info.componentStack)
+  }
+
+  reset = () => {
+    this.setState({ error: null })
+  }
+
+  render() {
+    const { error } = this.state
+    if (!error) return this.props.children
+
+    return (
+      <div className="error-container" role="alert">
+        <h2>Something went wrong</h2>
+        <p>{error.message}</p>
+        <button type="button" onClick={this.reset} autoFocus>
+          Try again
+        </button>
+      </div>
+    )
+  }
+}
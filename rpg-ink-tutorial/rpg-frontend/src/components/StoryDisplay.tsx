@@ -0,0 +1,31 @@
+import { useEffect, useRef } from 'react'
+import type { StoryLine } from '../types/story'
+import { tagClassNames, tagStyle } from '../utils/tags'
+
+interface StoryDisplayProps {
+  lines: StoryLine[]
+}
+
+/** The story so far. Each line is styled by its tags, and new text scrolls into view. */
+export function StoryDisplay({ lines }: StoryDisplayProps) {
+  const endRef = useRef<HTMLDivElement>(null)
+
+  useEffect(() => {
+    endRef.current?.scrollIntoView({ block: 'end' })
+  }, [lines.length])
+
+  return (
+    <section className="story-display" aria-label="Story" aria-live="polite">
+      {lines.map((line, index) => (
+        <p
+          key={index}
+          className={['story-line', line.chosen ? 'chosen' : '', ...tagClassNames(line.tags)].filter(Boolean).join(' ')}
+          style={tagStyle(line.tags)}
+        >
+          {line.chosen ? `> ${line.text}` : line.text}
+        </p>
+      ))}
+      <div ref={endRef} />
+    </section>
+  )
+}
@@ -0,0 +1,39 @@
+import { useInkStory } from '../hooks/useInkStory'
+import { ChoiceList } from './ChoiceList'
+import { StoryDisplay } from './StoryDisplay'
+import { VariableList } from './VariableList'
+
+interface StoryPlayerProps {
+  storyUrl: string
+}
+
+/**
+ * Plays one compiled story. Load and runtime errors are thrown from here so
+ * the surrounding ErrorBoundary can show them.
+ */
+export function StoryPlayer({ storyUrl }: StoryPlayerProps) {
+  const { status, title, lines, choices, variables, error, choose, restart } = useInkStory(storyUrl)
+
+  if (error) throw error
+  if (status === 'loading') {
+    return <p className="story-status" role="status">Loading story…</p>
+  }
+
+  return (
+    <div className="story-player">
+      {title && <h2 className="story-title">{title}</h2>}
+      <VariableList variables={variables} />
+      <StoryDisplay lines={lines} />
+      {status === 'ended' ? (
+        <div className="story-end">
+          <p>The End</p>
+          <button type="button" onClick={restart} autoFocus>
+            Play again
+          </button>
+        </div>
+      ) : (
+        <ChoiceList choices={choices} onChoose={choose} />
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,22 @@
+import type { InkValue } from '../types/story'
+
+interface VariableListProps {
+  variables: Record<string, InkValue>
+}
+
+/** The story's global variables as they stand, e.g. `player_hp` and `player_name`. */
+export function VariableList({ variables }: VariableListProps) {
+  const names = Object.keys(variables)
+  if (names.length === 0) return null
+
+  return (
+    <dl className="variable-list" aria-label="Story variables">
+      {names.map(name => (
+        <div key={name}>
+          <dt>{name}</dt>
+          <dd>{variables[name] === '' ? '—' : String(variables[name])}</dd>
+        </div>
+      ))}
+    </dl>
+  )
+}
@@ -0,0 +1,41 @@
+import { useEffect, useState } from 'react'
+import type { AdventureList } from '../types/adventure'
+import { loadAdventureList } from '../utils/inkLoader'
+
+// Shared by the selector and every adventure page, so the manifest is only
+// fetched once. A failed load is forgotten so the next mount tries again.
+let request: Promise<AdventureList> | null = null
+
+function requestAdventureList(): Promise<AdventureList> {
+  request ??= loadAdventureList().catch(error => {
+    request = null
+    throw error
+  })
+  return request
+}
+
+interface AdventureListState {
+  list: AdventureList | null
+  error: Error | null
+}
+
+/** The validated adventure manifest: `list` is null until it has loaded. */
+export function useAdventureList(): AdventureListState {
+  const [state, setState] = useState<AdventureListState>({ list: null, error: null })
+
+  useEffect(() => {
+    let cancelled = false
+    requestAdventureList()
+      .then(list => {
+        if (!cancelled) setState({ list, error: null })
+      })
+      .catch((error: Error) => {
+        if (!cancelled) setState({ list: null, error })
+      })
+    return () => {
+      cancelled = true
+    }
+  }, [])
+
+  return state
+}
@@ -0,0 +1,148 @@
+import { useCallback, useEffect, useRef, useState } from 'react'
+import { Story } from 'inkjs'
+import type { InkStoryState, InkValue, StoryChoice, StoryLine } from '../types/story'
+import { StoryError } from '../utils/errorHandling'
+import { loadStoryJson } from '../utils/inkLoader'
+import { tagValue } from '../utils/tags'
+
+type Snapshot = Omit<InkStoryState, 'error'>
+
+// inkjs's ErrorType.Error; warnings and author TODOs are only logged.
+const INK_ERROR = 2
+
+const LOADING: InkStoryState = {
+  status: 'loading',
+  title: null,
+  globalTags: [],
+  lines: [],
+  choices: [],
+  tags: [],
+  variables: {},
+  error: null,
+}
+
+function readVariables(story: Story): Record<string, InkValue> {
+  const variables: Record<string, InkValue> = {}
+  for (const name of Object.keys(story.variablesState)) {
+    const value = story.variablesState.$(name)
+    variables[name] = value === null || typeof value !== 'object' ? value : value.toString()
+  }
+  return variables
+}
+
+function createStory(json: string, source: string): Story {
+  try {
+    return new Story(json)
+  } catch (error) {
+    throw new StoryError(`The story could not be read: ${(error as Error).message}`, source, { cause: error })
+  }
+}
+
+/**
+ * Run the story on to the next choice point. inkjs reports runtime errors
+ * through onError rather than throwing, so they are collected and thrown
+ * here once the story has stopped.
+ */
+function advance(story: Story, source: string, lines: StoryLine[]): Snapshot {
+  const errors: string[] = []
+  story.onError = (message, type) => {
+    if (type === INK_ERROR) errors.push(message)
+    else console.warn(`[ink] ${message}`)
+  }
+
+  const globalTags = story.globalTags ?? []
+  let tags: string[] = []
+  while (story.canContinue) {
+    const text = story.Continue() ?? ''
+    tags = story.currentTags ?? []
+    // The opening line also carries the global tags, which are shown as the title instead.
+    if (lines.length === 0 && globalTags.every((tag, index) => tags[index] === tag)) {
+      tags = tags.slice(globalTags.length)
+    }
+    if (text.trim()) lines.push({ text: text.replace(/\n$/, ''), tags })
+  }
+  if (errors.length > 0) {
+    throw new StoryError(`The story stopped with an error: ${errors.join('; ')}`, source)
+  }
+
+  const choices: StoryChoice[] = story.currentChoices.map(choice => ({
+    index: choice.index,
+    text: choice.text,
+    tags: choice.tags ?? [],
+  }))
+
+  return {
+    status: choices.length > 0 ? 'playing' : 'ended',
+    title: tagValue(globalTags, 'title'),
+    globalTags,
+    lines: [...lines],
+    choices,
+    tags,
+    variables: readVariables(story),
+  }
+}
+
+/**
+ * Play a compiled ink story from `storyUrl`. Returns the text so far, the
+ * choices on offer, the latest tags and a snapshot of the story's variables,
+ * along with `choose` and `restart`. A story that fails to load or run sets
+ * `error` rather than throwing, so the component can hand it to an error
+ * boundary.
+ */
+export function useInkStory(storyUrl: string) {
+  const storyRef = useRef<Story | null>(null)
+  const linesRef = useRef<StoryLine[]>([])
+  // Keyed by URL, so a new storyUrl shows as loading until it has arrived.
+  const [loaded, setLoaded] = useState<{ url: string; state: InkStoryState } | null>(null)
+
+  useEffect(() => {
+    let cancelled = false
+    storyRef.current = null
+
+    loadStoryJson(storyUrl)
+      .then(json => {
+        if (cancelled) return
+        const story = createStory(json, storyUrl)
+        storyRef.current = story
+        linesRef.current = []
+        setLoaded({ url: storyUrl, state: { ...advance(story, storyUrl, linesRef.current), error: null } })
+      })
+      .catch((error: Error) => {
+        if (!cancelled) setLoaded({ url: storyUrl, state: { ...LOADING, error } })
+      })
+
+    return () => {
+      cancelled = true
+    }
+  }, [storyUrl])
+
+  const update = useCallback((play: (story: Story) => void) => {
+    const story = storyRef.current
+    if (!story) return
+    try {
+      play(story)
+      setLoaded({ url: storyUrl, state: { ...advance(story, storyUrl, linesRef.current), error: null } })
+    } catch (error) {
+      setLoaded(previous => previous && { ...previous, state: { ...previous.state, error: error as Error } })
+    }
+  }, [storyUrl])
+
+  const choose = useCallback((index: number) => {
+    update(story => {
+      const choice = story.currentChoices[index]
+      if (!choice) return
+      linesRef.current.push({ text: choice.text, tags: [], chosen: true })
+      story.ChooseChoiceIndex(index)
+    })
+  }, [update])
+
+  const restart = useCallback(() => {
+    update(story => {
+      linesRef.current = []
+      story.ResetState()
+    })
+  }, [update])
+
+  const state = loaded?.url === storyUrl ? loaded.state : LOADING
+  return { ...state, choose, restart }
+}
@@ -0,0 +1,35 @@
+export const DIFFICULTIES = ['easy', 'medium', 'hard'] as const
+
+export type Difficulty = (typeof DIFFICULTIES)[number]
+
+/** One entry in `public/adventures/index.json`. */
+export interface AdventureMetadata {
+  /** Used in the URL: `/adventure/<id>`. */
+  id: string
+  title: string
+  description: string
+  difficulty: Difficulty
+  /** The compiled story JSON, relative to the adventures folder. */
+  story: string
+  /** An image for the selector card, relative to the adventures folder. */
+  cover?: string
+}
+
+/** A manifest entry with its paths resolved to URLs the app can fetch. */
+export interface Adventure extends AdventureMetadata {
+  storyUrl: string
+  coverUrl: string | null
+}
+
+/** Why a manifest entry was left out of the list. */
+export interface ManifestProblem {
+  /** 1-based position in the manifest. */
+  entry: number
+  id?: string
+  message: string
+}
+
+export interface AdventureList {
+  adventures: Adventure[]
+  problems: ManifestProblem[]
+}
@@ -0,0 +1,31 @@
+/** A value held by an ink variable. Lists and divert targets are shown as text. */
+export type InkValue = string | number | boolean | null
+
+/** One line of story output, or the text of a choice the player took. */
+export interface StoryLine {
+  text: string
+  tags: string[]
+  chosen?: boolean
+}
+
+export interface StoryChoice {
+  index: number
+  text: string
+  tags: string[]
+}
+
+export type StoryStatus = 'loading' | 'playing' | 'ended'
+
+export interface InkStoryState {
+  status: StoryStatus
+  /** The story's `# title:` global tag, if it has one. */
+  title: string | null
+  globalTags: string[]
+  /** Everything shown since the story started, choices included. */
+  lines: StoryLine[]
+  choices: StoryChoice[]
+  /** Tags on the most recent line. */
+  tags: string[]
+  variables: Record<string, InkValue>
+  error: Error | null
+}
@@ -0,0 +1,10 @@
+/** A story, or the adventure list, that could not be fetched, parsed or run. */
+export class StoryError extends Error {
+  readonly source: string
+
+  constructor(message: string, source: string, options?: ErrorOptions) {
+    super(message, options)
+    this.name = 'StoryError'
+    this.source = source
+  }
+}
@@ -0,0 +1,62 @@
+import { afterEach, describe, expect, it, vi } from 'vitest'
+import { StoryError } from './errorHandling'
+import { loadAdventureList, loadStoryJson } from './inkLoader'
+
+const STORY_URL = '/adventures/the-cave.json'
+const STORY_JSON = JSON.stringify({ inkVersion: 21, root: [], listDefs: {} })
+
+function serve(body: string, init: ResponseInit = {}) {
+  vi.stubGlobal('fetch', vi.fn(async () => new Response(body, init)))
+}
+
+afterEach(() => {
+  vi.unstubAllGlobals()
+})
+
+describe('loadStoryJson', () => {
+  it('returns a compiled story without the BOM inklecate writes', async () => {
+    serve(`\uFEFF${STORY_JSON}`, { headers: { 'Content-Type': 'application/json' } })
+    await expect(loadStoryJson(STORY_URL)).resolves.toBe(STORY_JSON)
+  })
+
+  it('names the story in HTTP errors', async () => {
+    serve('', { status: 404, statusText: 'Not Found' })
+    await expect(loadStoryJson(STORY_URL)).rejects.toThrow('Could not load the story (404 Not Found).')
+  })
+
+  it("spots the dev server's index.html standing in for a missing file", async () => {
+    serve('<!doctype html>', { headers: { 'Content-Type': 'text/html' } })
+    await expect(loadStoryJson(STORY_URL)).rejects.toThrow(`There is no story at ${STORY_URL}.`)
+  })
+
+  it('rejects .ink source and JSON that is not a compiled story', async () => {
+    serve('=== start ===\nHello.')
+    await expect(loadStoryJson(STORY_URL)).rejects.toThrow(/Was the \.ink file served/)
+
+    serve('{"title": "The Cave"}')
+    const error = await loadStoryJson(STORY_URL).catch(caught => caught)
+    expect(error).toBeInstanceOf(StoryError)
+    expect(error).toMatchObject({ message: 'The file is JSON but not a compiled ink story.', source: STORY_URL })
+  })
+})
+
+describe('loadAdventureList', () => {
+  const MANIFEST_URL = '/adventures/index.json'
+
+  it('keeps the entries that check out and reports the rest', async () => {
+    serve(JSON.stringify([
+      { id: 'the-cave', title: 'The Cave', description: 'A short descent.', difficulty: 'easy', story: 'the-cave.json' },
+      { id: 'the-keep', title: 'The Keep', description: 'A siege.', difficulty: 'impossible', story: 'the-keep.json' },
+    ]))
+
+    const { adventures, problems } = await loadAdventureList(MANIFEST_URL)
+    expect(adventures.map(adventure => adventure.storyUrl)).toEqual(['/adventures/the-cave.json'])
+    expect(problems).toHaveLength(1)
+    expect(problems[0]).toMatchObject({ entry: 2, id: 'the-keep' })
+  })
+
+  it('throws when the list itself is not JSON', async () => {
+    serve('[{')
+    await expect(loadAdventureList(MANIFEST_URL)).rejects.toThrow(/^The adventure list is not valid JSON/)
+  })
+})
@@ -0,0 +1,60 @@
+import type { AdventureList } from '../types/adventure'
+import { StoryError } from './errorHandling'
+import { validateManifest } from './manifest'
+
+export const ADVENTURES_INDEX_URL = `${import.meta.env.BASE_URL}adventures/index.json`
+
+/**
+ * Fetch a text file, naming `what` it was in any error. The BOM inklecate
+ * writes is stripped, as JSON.parse rejects it.
+ */
+async function fetchText(url: string, what: string): Promise<string> {
+  let response: Response
+  try {
+    response = await fetch(url)
+  } catch (error) {
+    throw new StoryError(`Could not fetch ${what}: ${(error as Error).message}`, url, { cause: error })
+  }
+  if (!response.ok) {
+    throw new StoryError(`Could not load ${what} (${response.status} ${response.statusText}).`, url)
+  }
+  // The dev server answers a missing file with the app's index.html.
+  if (response.headers.get('content-type')?.includes('text/html')) {
+    throw new StoryError(`There is no ${what.replace(/^the /, '')} at ${url}.`, url)
+  }
+  return (await response.text()).replace(/^\uFEFF/, '')
+}
+
+/**
+ * Fetch a compiled ink story (the .json that inklecate or calligrapher writes)
+ * and check it looks like one before inkjs sees it.
+ */
+export async function loadStoryJson(url: string): Promise<string> {
+  const json = await fetchText(url, 'the story')
+  let parsed: unknown
+  try {
+    parsed = JSON.parse(json)
+  } catch (error) {
+    throw new StoryError('The story is not valid JSON. Was the .ink file served instead of the compiled .json?', url, { cause: error })
+  }
+  if (!parsed || typeof parsed !== 'object' || !('inkVersion' in parsed) || !('root' in parsed)) {
+    throw new StoryError('The file is JSON but not a compiled ink story.', url)
+  }
+  return json
+}
+
+/**
+ * Fetch and validate the adventure manifest. A manifest that can't be read
+ * at all throws; entries that are broken are left out and reported in
+ * `problems`, so the rest can still be played.
+ */
+export async function loadAdventureList(url = ADVENTURES_INDEX_URL): Promise<AdventureList> {
+  const json = await fetchText(url, 'the adventure list')
+  let parsed: unknown
+  try {
+    parsed = JSON.parse(json)
+  } catch (error) {
+    throw new StoryError(`The adventure list is not valid JSON: ${(error as Error).message}`, url, { cause: error })
+  }
+  return validateManifest(parsed, url)
+}
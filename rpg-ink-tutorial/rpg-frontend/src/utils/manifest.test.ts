@@ -0,0 +1,90 @@
+import { describe, expect, it } from 'vitest'
+import { StoryError } from './errorHandling'
+import { formatProblem, validateManifest } from './manifest'
+
+const MANIFEST_URL = '/adventures/index.json'
+
+const entry = (fields: Record<string, unknown> = {}) => ({
+  id: 'the-cave',
+  title: 'The Cave',
+  description: 'A short descent.',
+  difficulty: 'easy',
+  story: 'the-cave.json',
+  ...fields,
+})
+
+describe('validateManifest', () => {
+  it('resolves story and cover paths against the manifest', () => {
+    const { adventures, problems } = validateManifest([entry({ cover: 'covers/cave.svg' })], MANIFEST_URL)
+
+    expect(problems).toEqual([])
+    expect(adventures).toHaveLength(1)
+    expect(adventures[0]).toMatchObject({
+      id: 'the-cave',
+      storyUrl: '/adventures/the-cave.json',
+      coverUrl: '/adventures/covers/cave.svg',
+    })
+  })
+
+  it('leaves absolute paths and URLs alone', () => {
+    const { adventures } = validateManifest(
+      [entry({ story: '/stories/cave.json', cover: 'https://example.com/cave.png' })],
+      MANIFEST_URL,
+    )
+
+    expect(adventures[0].storyUrl).toBe('/stories/cave.json')
+    expect(adventures[0].coverUrl).toBe('https://example.com/cave.png')
+  })
+
+  it('gives an adventure without a cover a null coverUrl', () => {
+    expect(validateManifest([entry()], MANIFEST_URL).adventures[0].coverUrl).toBeNull()
+  })
+
+  it('throws a StoryError when the manifest is not an array', () => {
+    expect(() => validateManifest({ adventures: [] }, MANIFEST_URL)).toThrow(StoryError)
+    expect(() => validateManifest(null, MANIFEST_URL)).toThrow('(got null)')
+  })
+
+  it('reports broken entries and keeps the good ones', () => {
+    const { adventures, problems } = validateManifest(
+      [entry(), 'not an entry', entry({ id: 'second', difficulty: 'brutal' })],
+      MANIFEST_URL,
+    )
+
+    expect(adventures.map(adventure => adventure.id)).toEqual(['the-cave'])
+    expect(problems).toEqual([
+      { entry: 2, message: 'must be an object (got "not an entry")' },
+      {
+        entry: 3,
+        id: 'second',
+        message: '"difficulty" must be one of easy, medium, hard (got "brutal")',
+      },
+    ])
+  })
+
+  it('lists every problem with an entry', () => {
+    const { problems } = validateManifest([{ id: 'Bad Id', title: '', story: 'cave.ink' }], MANIFEST_URL)
+
+    expect(problems[0].message.split('; ')).toEqual([
+      '"id" must be lowercase letters, digits and dashes (got "Bad Id")',
+      '"title" must be a non-empty string (got "")',
+      '"description" must be a non-empty string (got nothing)',
+      '"difficulty" must be one of easy, medium, hard (got nothing)',
+      '"story" must point at the compiled .json, not the .ink source (got "cave.ink")',
+    ])
+  })
+
+  it('rejects an id already used by an earlier entry', () => {
+    const { adventures, problems } = validateManifest([entry(), entry({ title: 'Again' })], MANIFEST_URL)
+
+    expect(adventures).toHaveLength(1)
+    expect(problems[0].message).toBe('"id" "the-cave" is used by an earlier entry')
+  })
+})
+
+describe('formatProblem', () => {
+  it('names the entry, and its id when it has one', () => {
+    expect(formatProblem({ entry: 2, message: 'must be an object' })).toBe('Entry 2: must be an object')
+    expect(formatProblem({ entry: 3, id: 'cave', message: 'oops' })).toBe('Entry 3 ("cave"): oops')
+  })
+})
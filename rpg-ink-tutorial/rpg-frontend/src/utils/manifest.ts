@@ -0,0 +1,103 @@
+import { DIFFICULTIES } from '../types/adventure'
+import type { Adventure, AdventureList, AdventureMetadata, Difficulty, ManifestProblem } from '../types/adventure'
+import { StoryError } from './errorHandling'
+
+// Ids go straight into the URL, so keep them to lowercase words and dashes.
+const ID_PATTERN = /^[a-z0-9]+(-[a-z0-9]+)*$/
+
+/** Paths in the manifest are relative to it, unless they start with `/` or a scheme. */
+function resolvePath(path: string, manifestUrl: string): string {
+  if (/^([a-z][a-z0-9+.-]*:|\/)/i.test(path)) return path
+  return manifestUrl.slice(0, manifestUrl.lastIndexOf('/') + 1) + path
+}
+
+function describe(value: unknown): string {
+  return value === undefined ? 'nothing' : JSON.stringify(value)
+}
+
+/** Every way `entry` is broken, as messages naming the field. Empty when it's fine. */
+function entryErrors(entry: Record<string, unknown>, seenIds: Set<string>): string[] {
+  const errors: string[] = []
+  const text = (field: string, required = true) => {
+    const value = entry[field]
+    if (value === undefined && !required) return
+    if (typeof value !== 'string' || (required && !value.trim())) {
+      errors.push(`"${field}" must be ${required ? 'a non-empty' : 'a'} string (got ${describe(value)})`)
+    }
+  }
+
+  text('id')
+  if (typeof entry.id === 'string' && entry.id.trim()) {
+    if (!ID_PATTERN.test(entry.id)) {
+      errors.push(`"id" must be lowercase letters, digits and dashes (got ${describe(entry.id)})`)
+    } else if (seenIds.has(entry.id)) {
+      errors.push(`"id" ${describe(entry.id)} is used by an earlier entry`)
+    }
+  }
+  text('title')
+  text('description')
+  if (!DIFFICULTIES.includes(entry.difficulty as Difficulty)) {
+    errors.push(`"difficulty" must be one of ${DIFFICULTIES.join(', ')} (got ${describe(entry.difficulty)})`)
+  }
+  text('story')
+  if (typeof entry.story === 'string' && entry.story.trim()) {
+    if (entry.story.endsWith('.ink')) {
+      errors.push(`"story" must point at the compiled .json, not the .ink source (got ${describe(entry.story)})`)
+    } else if (!entry.story.endsWith('.json')) {
+      errors.push(`"story" must be a .json file (got ${describe(entry.story)})`)
+    }
+  }
+  text('cover', false)
+  return errors
+}
+
+export function formatProblem(problem: ManifestProblem): string {
+  return `Entry ${problem.entry}${problem.id ? ` ("${problem.id}")` : ''}: ${problem.message}`
+}
+
+/**
+ * Check a parsed `adventures/index.json`: an array of entries, each with an
+ * id, title, description, difficulty, story path and optional cover. Valid
+ * entries come back with their paths resolved against `manifestUrl`; each
+ * broken one becomes a problem saying what is wrong with it.
+ */
+export function validateManifest(data: unknown, manifestUrl: string): AdventureList {
+  if (!Array.isArray(data)) {
+    throw new StoryError(`The adventure list must be a JSON array of adventures (got ${data === null ? 'null' : typeof data}).`, manifestUrl)
+  }
+
+  const adventures: Adventure[] = []
+  const problems: ManifestProblem[] = []
+  const seenIds = new Set<string>()
+
+  data.forEach((entry: unknown, index) => {
+    const position = index + 1
+    if (!entry || typeof entry !== 'object' || Array.isArray(entry)) {
+      problems.push({ entry: position, message: `must be an object (got ${describe(entry)})` })
+      return
+    }
+
+    const fields = entry as Record<string, unknown>
+    const id = typeof fields.id === 'string' && fields.id ? fields.id : undefined
+    const errors = entryErrors(fields, seenIds)
+    if (errors.length > 0) {
+      problems.push({ entry: position, id, message: errors.join('; ') })
+      return
+    }
+
+    const metadata = fields as unknown as AdventureMetadata
+    seenIds.add(metadata.id)
+    adventures.push({
+      id: metadata.id,
+      title: metadata.title,
+      description: metadata.description,
+      difficulty: metadata.difficulty,
+      story: metadata.story,
+      cover: metadata.cover,
+      storyUrl: resolvePath(metadata.story, manifestUrl),
+      coverUrl: metadata.cover ? resolvePath(metadata.cover, manifestUrl) : null,
+    })
+  })
+
+  return { adventures, problems }
+}
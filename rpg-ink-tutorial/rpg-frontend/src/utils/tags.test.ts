@@ -0,0 +1,30 @@
+import { describe, expect, it } from 'vitest'
+import { parseTag, tagClassNames, tagStyle, tagValue } from './tags'
+
+describe('parseTag', () => {
+  it('splits a tag into a name and an optional value', () => {
+    expect(parseTag(' speaker : Aria ')).toEqual({ name: 'speaker', value: 'Aria' })
+    expect(parseTag('scene')).toEqual({ name: 'scene' })
+    expect(parseTag('time: 10:30')).toEqual({ name: 'time', value: '10:30' })
+  })
+
+  it('finds a value by tag name, ignoring case', () => {
+    expect(tagValue(['scene', 'Speaker: Aria'], 'speaker')).toBe('Aria')
+    expect(tagValue(['scene'], 'speaker')).toBeNull()
+  })
+})
+
+describe('tag styling', () => {
+  it('gives each tag a CSS-safe class name', () => {
+    expect(tagClassNames(['Combat', 'speaker: Aria', 'big fight!'])).toEqual(['tag-combat', 'tag-speaker', 'tag-big-fight-'])
+  })
+
+  it('turns color, bgcolor, bold and italic into inline styles', () => {
+    expect(tagStyle(['color: red', 'bgcolor: #222', 'bold', 'italic', 'scene'])).toEqual({
+      color: 'red',
+      backgroundColor: '#222',
+      fontWeight: 'bold',
+      fontStyle: 'italic',
+    })
+  })
+})
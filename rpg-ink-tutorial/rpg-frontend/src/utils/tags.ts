@@ -0,0 +1,52 @@
+import type { CSSProperties } from 'react'
+
+export interface StoryTag {
+  name: string
+  value?: string
+}
+
+/** `speaker: Aria` → `{ name: 'speaker', value: 'Aria' }`; `scene` → `{ name: 'scene' }`. */
+export function parseTag(tag: string): StoryTag {
+  const separator = tag.indexOf(':')
+  return separator < 0
+    ? { name: tag.trim() }
+    : { name: tag.slice(0, separator).trim(), value: tag.slice(separator + 1).trim() }
+}
+
+export function tagValue(tags: string[], name: string): string | null {
+  const tag = tags.map(parseTag).find(tag => tag.name.toLowerCase() === name)
+  return tag?.value ?? null
+}
+
+/**
+ * One `tag-<name>` class per tag, so `#scene`, `#combat`, `#dialog` and
+ * anything else a story uses can be styled from CSS.
+ */
+export function tagClassNames(tags: string[]): string[] {
+  return tags
+    .map(tag => parseTag(tag).name.toLowerCase().replace(/[^a-z0-9_-]+/g, '-'))
+    .filter(Boolean)
+    .map(name => `tag-${name}`)
+}
+
+/** Inline styles for the tags that carry one: `color:`, `bgcolor:`, `bold` and `italic`. */
+export function tagStyle(tags: string[]): CSSProperties {
+  const style: CSSProperties = {}
+  for (const { name, value } of tags.map(parseTag)) {
+    switch (name.toLowerCase()) {
+      case 'color':
+        style.color = value
+        break
+      case 'bgcolor':
+        style.backgroundColor = value
+        break
+      case 'bold':
+        style.fontWeight = 'bold'
+        break
+      case 'italic':
+        style.fontStyle = 'italic'
+        break
+    }
+  }
+  return style
+}